@@ -5,38 +5,8 @@
  * into a basic NestJS application.
  */
 
-import { HttpModule } from '@nestjs/axios';
 import { Body, Controller, Get, Module, Post } from '@nestjs/common';
-import { Auth, RequirePermissions, RequireRoles, User } from '../src';
-
-// Import all auth components
-import {
-  AuthGuard,
-  AuthValidatorService,
-  PermissionGuard,
-  RoleGuard,
-  TokenExtractorService
-} from '../src';
-
-// Auth Module - encapsulates all authentication logic
-@Module({
-  imports: [HttpModule],
-  providers: [
-    AuthValidatorService,
-    TokenExtractorService,
-    AuthGuard,
-    PermissionGuard,
-    RoleGuard
-  ],
-  exports: [
-    AuthValidatorService,
-    TokenExtractorService,
-    AuthGuard,
-    PermissionGuard,
-    RoleGuard
-  ],
-})
-class AuthModule { }
+import { Auth, AuthModule, CurrentUser, RequirePermissions, RequireRoles, User } from '../src';
 
 // Example Controller demonstrating different auth patterns
 @Controller('api')
@@ -79,7 +49,7 @@ class ApiController {
 
   @Get('profile')
   @Auth()
-  getUserProfile(@User() user: User) {
+  getUserProfile(@CurrentUser() user: User) {
     return {
       message: 'User profile data',
       user: {
@@ -94,13 +64,13 @@ class ApiController {
   @RequirePermissions(['workspace.item.create'])
   createWorkspaceItem(
     @Body() itemData: any,
-    @User() user: User
+    @CurrentUser('sub') userId: string
   ) {
     return {
       message: 'Item created in workspace',
       item: {
         ...itemData,
-        createdBy: user.sub,
+        createdBy: userId,
         workspaceId: 'workspace-123'
       }
     };
@@ -109,7 +79,13 @@ class ApiController {
 
 // Main Application Module
 @Module({
-  imports: [AuthModule],
+  imports: [
+    AuthModule.forRoot({
+      introspectionUrl: process.env.TOKEN_INTROSPECTION_URL,
+      permissionCheckUrl: process.env.PERMISSION_CHECK_URL,
+      roleCheckUrl: process.env.ROLE_CHECK_URL,
+    }),
+  ],
   controllers: [ApiController],
 })
 class AppModule { }
@@ -147,5 +123,5 @@ Headers:
 Response: {"message": "This endpoint requires user management permissions", "data": {...}}
 */
 
-export { ApiController, AppModule, AuthModule };
+export { ApiController, AppModule };
 
@@ -11,6 +11,9 @@ import { Global, Module } from '@nestjs/common';
 import {
   AuthGuard,
   AuthValidatorService,
+  BearerTokenStrategy,
+  CookieTokenStrategy,
+  HeaderTokenStrategy,
   PermissionGuard,
   RoleGuard,
   TokenExtractorService
@@ -55,30 +58,21 @@ export class GlobalAuthModule { }
 @Module({
   imports: [GlobalAuthModule],
   providers: [
-    // Custom token extractor for service-specific needs
+    // Service-to-service token first, then the standard Bearer header and cookie
     {
       provide: TokenExtractorService,
-      useClass: CustomTokenExtractorService,
+      useFactory: () => new TokenExtractorService({
+        tokenExtractors: [
+          new HeaderTokenStrategy('x-service-token'),
+          new BearerTokenStrategy(),
+          new CookieTokenStrategy(),
+        ],
+      }),
     }
   ],
 })
 export class UserServiceAuthModule { }
 
-// Custom token extractor for specific service needs
-export class CustomTokenExtractorService extends TokenExtractorService {
-  extractToken(request: any): string | undefined {
-    // Try custom header first
-    let token = request.headers['x-service-token'];
-
-    if (token) {
-      return token;
-    }
-
-    // Fall back to standard extraction
-    return super.extractToken(request);
-  }
-}
-
 // Example controller for user service
 class UserController {
   constructor(
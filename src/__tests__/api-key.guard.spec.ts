@@ -0,0 +1,144 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { of } from 'rxjs';
+import { ApiKeyGuard } from '../api-key.guard';
+import { HashedApiKeyVerifier, hashApiKey } from '../api-key';
+import { AuthGuard } from '../auth.guard';
+import { AuthValidatorService } from '../auth-validator.service';
+import { Auth, Public } from '../decorators';
+import { TokenExtractorService } from '../token-extractor.service';
+
+class Controller {
+  @Auth({ strategies: ['jwt', 'apiKey'] })
+  either() { }
+
+  @Auth()
+  jwtOnly() { }
+}
+
+@Public()
+class PublicController {
+  webhook() { }
+}
+
+const makeCtx = (headers: any, handler: keyof Controller = 'either') => {
+  const request: any = { headers };
+  const ctx = {
+    getType: () => 'http',
+    switchToHttp: () => ({ getRequest: () => request }),
+    getHandler: () => Controller.prototype[handler],
+    getClass: () => Controller,
+  } as unknown as ExecutionContext;
+  return { ctx, request };
+};
+
+describe('API key authentication', () => {
+  const verifier = new HashedApiKeyVerifier([
+    { hash: hashApiKey('partner-key'), principal: { sub: 'partner-1', role: 'partner', scopes: ['orders:read'] } },
+  ]);
+  let validator: AuthValidatorService;
+  let http: { post: jest.Mock };
+
+  beforeEach(() => {
+    process.env.NODE_ENV = 'production';
+    http = { post: jest.fn() };
+    validator = new AuthValidatorService(http as any, { apiKey: { verifier } });
+  });
+
+  it('HashedApiKeyVerifier maps known keys to their principal', async () => {
+    await expect(verifier.verify('partner-key')).resolves.toEqual(expect.objectContaining({ sub: 'partner-1' }));
+    await expect(verifier.verify('other-key')).resolves.toBeUndefined();
+  });
+
+  it('ApiKeyGuard authenticates the key header into an apiKey principal', async () => {
+    const guard = new ApiKeyGuard(new TokenExtractorService(), validator, new Reflector());
+    const { ctx, request } = makeCtx({ 'x-api-key': 'partner-key', authorization: 'Bearer ignored' }, 'jwtOnly');
+
+    await expect(guard.canActivate(ctx)).resolves.toBe(true);
+    expect(request.user).toEqual({
+      sub: 'partner-1',
+      role: 'partner',
+      scopes: ['orders:read'],
+      accessToken: 'partner-key',
+      authStrategy: 'apiKey',
+    });
+    expect(request.authTokenSource).toBe('api-key');
+    expect(http.post).not.toHaveBeenCalled();
+  });
+
+  it('ApiKeyGuard rejects unknown and missing keys', async () => {
+    const guard = new ApiKeyGuard(new TokenExtractorService(), validator, new Reflector());
+    await expect(guard.canActivate(makeCtx({ 'x-api-key': 'other-key' }).ctx)).rejects.toBeInstanceOf(UnauthorizedException);
+    await expect(guard.canActivate(makeCtx({ authorization: 'Bearer T' }).ctx)).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('ApiKeyGuard requires a key on @Public() controllers', async () => {
+    const guard = new ApiKeyGuard(new TokenExtractorService(), validator, new Reflector());
+    const makePublicCtx = (headers: any) => ({
+      getType: () => 'http',
+      switchToHttp: () => ({ getRequest: () => ({ headers }) }),
+      getHandler: () => PublicController.prototype.webhook,
+      getClass: () => PublicController,
+    } as unknown as ExecutionContext);
+
+    await expect(guard.canActivate(makePublicCtx({}))).rejects.toBeInstanceOf(UnauthorizedException);
+    await expect(guard.canActivate(makePublicCtx({ 'x-api-key': 'partner-key' }))).resolves.toBe(true);
+  });
+
+  it('ApiKeyGuard requires a key even after AuthGuard authenticated a JWT', async () => {
+    validator.validateToken = jest.fn().mockResolvedValue({ sub: 'u1', accessToken: 'T' });
+    const { ctx, request } = makeCtx({ authorization: 'Bearer T' }, 'jwtOnly');
+
+    await new AuthGuard(new TokenExtractorService(), validator, new Reflector()).canActivate(ctx);
+    expect(request.user).toEqual({ sub: 'u1', accessToken: 'T' });
+    await expect(new ApiKeyGuard(new TokenExtractorService(), validator, new Reflector()).canActivate(ctx))
+      .rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('AuthGuard accepts the strategies listed in @Auth()', async () => {
+    const guard = new AuthGuard(new TokenExtractorService(), validator, new Reflector());
+    await expect(guard.canActivate(makeCtx({ 'x-api-key': 'partner-key' }).ctx)).resolves.toBe(true);
+    await expect(guard.canActivate(makeCtx({ 'x-api-key': 'partner-key' }, 'jwtOnly').ctx))
+      .rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('never accepts a cached key as a token, or a cached token as a key', async () => {
+    validator = new AuthValidatorService(http as any, { apiKey: { verifier }, introspectionUrl: 'http://auth/introspect' });
+    await validator.validateApiKey('partner-key');
+    http.post.mockReturnValueOnce(of({ data: { active: false } }));
+    await expect(new AuthGuard(new TokenExtractorService(), validator, new Reflector())
+      .canActivate(makeCtx({ authorization: 'Bearer partner-key' }, 'jwtOnly').ctx)).rejects.toBeInstanceOf(UnauthorizedException);
+
+    http.post.mockReturnValueOnce(of({ data: { active: true, sub: 'u1' } }));
+    await validator.validateToken('user-token');
+    await expect(new ApiKeyGuard(new TokenExtractorService(), validator, new Reflector())
+      .canActivate(makeCtx({ 'x-api-key': 'user-token' }).ctx)).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(http.post).toHaveBeenCalledTimes(2);
+  });
+
+  it('invalidateApiKey drops the cached validation', async () => {
+    validator = new AuthValidatorService(http as any, { apiKey: { verifyUrl: 'http://auth/api-keys' } });
+    http.post.mockReturnValue(of({ data: { active: true, sub: 'svc-1' } }));
+    await validator.validateApiKey('remote-key');
+    await validator.invalidateApiKey('remote-key');
+    await validator.validateApiKey('remote-key');
+    expect(http.post).toHaveBeenCalledTimes(2);
+  });
+
+  it('verifies keys remotely without a local verifier and caches the result', async () => {
+    validator = new AuthValidatorService(http as any, { apiKey: { verifyUrl: 'http://auth/api-keys' } });
+    http.post.mockReturnValue(of({ data: { active: true, sub: 'svc-1', scope: 'orders:read orders:write' } }));
+
+    await expect(validator.validateApiKey('remote-key')).resolves.toEqual(expect.objectContaining({
+      sub: 'svc-1',
+      scopes: ['orders:read', 'orders:write'],
+      authStrategy: 'apiKey',
+    }));
+    await validator.validateApiKey('remote-key');
+    expect(http.post).toHaveBeenCalledTimes(1);
+    expect(http.post).toHaveBeenCalledWith('http://auth/api-keys', { key: 'remote-key' }, expect.anything());
+
+    http.post.mockReturnValue(of({ data: { active: false } }));
+    await expect(validator.validateApiKey('revoked-key')).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+});
@@ -0,0 +1,61 @@
+import { LruAuthCacheStore, TtlAuthCacheStore, tokenCacheKey } from '../auth-cache.store';
+
+describe('LruAuthCacheStore', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('returns values until their TTL elapses', async () => {
+    jest.useFakeTimers();
+    const store = new LruAuthCacheStore();
+    await store.set('k', { v: 1 }, 1000);
+    await expect(store.get('k')).resolves.toEqual({ v: 1 });
+    jest.advanceTimersByTime(1000);
+    await expect(store.get('k')).resolves.toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+
+  it('evicts the least recently used entry when full', async () => {
+    const store = new LruAuthCacheStore(2);
+    await store.set('a', 1, 1000);
+    await store.set('b', 2, 1000);
+    await store.get('a'); // a is now most recently used
+    await store.set('c', 3, 1000);
+    await expect(store.get('b')).resolves.toBeUndefined();
+    await expect(store.get('a')).resolves.toBe(1);
+    await expect(store.get('c')).resolves.toBe(3);
+  });
+
+  it('deletes entries', async () => {
+    const store = new LruAuthCacheStore();
+    await store.set('a', 1, 1000);
+    await store.delete('a');
+    await expect(store.get('a')).resolves.toBeUndefined();
+  });
+});
+
+describe('TtlAuthCacheStore', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('never evicts live entries and sweeps expired ones', async () => {
+    jest.useFakeTimers();
+    const store = new TtlAuthCacheStore();
+    await store.set('marker', true, 60_000);
+    for (let i = 0; i < 998; i++) {
+      await store.set(`k${i}`, i, 1000);
+    }
+    jest.advanceTimersByTime(1000);
+    await store.set('next', 1, 1000);
+    expect(store.size).toBe(2);
+    await expect(store.get('marker')).resolves.toBe(true);
+    jest.advanceTimersByTime(59_000);
+    await expect(store.get('marker')).resolves.toBeUndefined();
+  });
+});
+
+describe('tokenCacheKey', () => {
+  it('hashes the token', () => {
+    const key = tokenCacheKey('secret-token');
+    expect(key).not.toContain('secret-token');
+    expect(key).toBe(tokenCacheKey('secret-token'));
+    expect(key).not.toBe(tokenCacheKey('other-token'));
+  });
+});
@@ -0,0 +1,167 @@
+import { ExecutionContext } from '@nestjs/common';
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { of, throwError } from 'rxjs';
+import { AuthAuditService } from '../auth-audit';
+import { AuthMetricsRecorder, InMemoryAuthMetrics, PromClientAuthMetrics } from '../auth-metrics';
+import { AuthValidatorService } from '../auth-validator.service';
+
+const mockAxiosResponse = <T>(data: T): AxiosResponse<T> => ({
+  data,
+  status: 200,
+  statusText: 'OK',
+  headers: {},
+  config: { headers: {} } as InternalAxiosRequestConfig,
+});
+
+class OrdersController {
+  update() { }
+}
+
+const makeCtx = () => ({
+  getType: () => 'http',
+  switchToHttp: () => ({ getRequest: () => ({ headers: {} }) }),
+  getHandler: () => OrdersController.prototype.update,
+  getClass: () => OrdersController,
+} as unknown as ExecutionContext);
+
+describe('InMemoryAuthMetrics', () => {
+  it('counts series per label set', () => {
+    const metrics = new InMemoryAuthMetrics();
+    metrics.increment('auth_calls_total', { operation: 'checkRole', outcome: 'deny' });
+    metrics.increment('auth_calls_total', { outcome: 'deny', operation: 'checkRole' }, 2);
+
+    expect(metrics.counter('auth_calls_total', { operation: 'checkRole', outcome: 'deny' })).toBe(3);
+    expect(metrics.counter('auth_calls_total', { operation: 'checkRole', outcome: 'allow' })).toBe(0);
+
+    metrics.reset();
+    expect(metrics.counter('auth_calls_total', { operation: 'checkRole', outcome: 'deny' })).toBe(0);
+  });
+
+  it('renders the Prometheus text exposition format', () => {
+    const metrics = new InMemoryAuthMetrics([0.1, 1]);
+    metrics.increment('auth_guard_denials_total', { check: 'role', route: 'Orders"Controller.update', reason: 'denied' });
+    metrics.observe('auth_upstream_request_duration_seconds', { endpoint: 'role', status: '200' }, 0.05);
+    metrics.observe('auth_upstream_request_duration_seconds', { endpoint: 'role', status: '200' }, 0.5);
+    metrics.observe('auth_upstream_request_duration_seconds', { endpoint: 'role', status: '200' }, 3);
+
+    const text = metrics.toPrometheusText();
+    expect(text).toContain('# TYPE auth_calls_total counter');
+    expect(text).toContain('auth_guard_denials_total{check="role",route="Orders\\"Controller.update",reason="denied"} 1');
+    expect(text).toContain('# TYPE auth_upstream_request_duration_seconds histogram');
+    expect(text).toContain('auth_upstream_request_duration_seconds_bucket{endpoint="role",status="200",le="0.1"} 1');
+    expect(text).toContain('auth_upstream_request_duration_seconds_bucket{endpoint="role",status="200",le="1"} 2');
+    expect(text).toContain('auth_upstream_request_duration_seconds_bucket{endpoint="role",status="200",le="+Inf"} 3');
+    expect(text).toContain('auth_upstream_request_duration_seconds_sum{endpoint="role",status="200"} 3.55');
+    expect(text).toContain('auth_upstream_request_duration_seconds_count{endpoint="role",status="200"} 3');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+});
+
+describe('PromClientAuthMetrics', () => {
+  // Minimal stand-in for prom-client: metrics register themselves by name
+  const fakeClient = () => {
+    const metrics = new Map<string, any>();
+    const register = { getSingleMetric: (name: string) => metrics.get(name) };
+    class Counter {
+      inc = jest.fn();
+      constructor(readonly config: any) { metrics.set(config.name, this); }
+    }
+    class Histogram {
+      observe = jest.fn();
+      constructor(readonly config: any) { metrics.set(config.name, this); }
+    }
+    return { client: { Counter, Histogram, register }, metrics };
+  };
+
+  it('registers every metric once and forwards samples', () => {
+    const { client, metrics } = fakeClient();
+    const adapter = new PromClientAuthMetrics(client, { buckets: [0.5] });
+    new PromClientAuthMetrics(client);
+
+    expect([...metrics.keys()]).toEqual([
+      'auth_calls_total',
+      'auth_cache_lookups_total',
+      'auth_upstream_request_duration_seconds',
+      'auth_guard_denials_total',
+    ]);
+    expect(metrics.get('auth_upstream_request_duration_seconds').config).toMatchObject({
+      labelNames: ['endpoint', 'status'],
+      buckets: [0.5],
+    });
+
+    adapter.increment('auth_cache_lookups_total', { cache: 'token', result: 'hit' });
+    adapter.observe('auth_upstream_request_duration_seconds', { endpoint: 'role', status: '200' }, 0.2);
+    expect(metrics.get('auth_cache_lookups_total').inc).toHaveBeenCalledWith({ cache: 'token', result: 'hit' }, 1);
+    expect(metrics.get('auth_upstream_request_duration_seconds').observe)
+      .toHaveBeenCalledWith({ endpoint: 'role', status: '200' }, 0.2);
+  });
+});
+
+describe('AuthMetricsRecorder', () => {
+  it('never fails on sink errors', () => {
+    const recorder = new AuthMetricsRecorder({
+      increment: () => { throw new Error('bad label'); },
+      observe: () => { throw new Error('bad label'); },
+    });
+    expect(() => recorder.call('checkRole', 'allow')).not.toThrow();
+    expect(() => recorder.upstream('role', 200, 0.1)).not.toThrow();
+  });
+});
+
+describe('instrumentation', () => {
+  let http: { post: jest.Mock };
+  let metrics: InMemoryAuthMetrics;
+  const user = { sub: 'u1', accessToken: 'T1' };
+  const ctx = { orgId: 'o1' };
+
+  beforeEach(() => {
+    process.env.NODE_ENV = 'production';
+    http = { post: jest.fn() };
+    metrics = new InMemoryAuthMetrics();
+  });
+
+  it('counts validator calls by outcome, cache lookups and upstream latency', async () => {
+    const svc = new AuthValidatorService(http as any, { metrics, retry: { retries: 0 } });
+    http.post
+      .mockReturnValueOnce(of(mockAxiosResponse({ active: true, sub: 'u1' })))
+      .mockReturnValueOnce(of(mockAxiosResponse({ hasRole: false })))
+      .mockReturnValueOnce(throwError(() => ({ message: 'down', response: { status: 503 } })));
+
+    await svc.validateToken('T1');
+    await svc.validateToken('T1');
+    await expect(svc.checkRole(user, ['admin'], 'all', ctx)).resolves.toBe(false);
+    await expect(svc.checkPermission(user, ['orders:read'], 'all', ctx)).rejects.toThrow('Authorization service unavailable');
+
+    expect(metrics.counter('auth_calls_total', { operation: 'validateToken', outcome: 'allow' })).toBe(2);
+    expect(metrics.counter('auth_calls_total', { operation: 'checkRole', outcome: 'deny' })).toBe(1);
+    expect(metrics.counter('auth_calls_total', { operation: 'checkPermission', outcome: 'error' })).toBe(1);
+    expect(metrics.counter('auth_cache_lookups_total', { cache: 'token', result: 'miss' })).toBe(1);
+    expect(metrics.counter('auth_cache_lookups_total', { cache: 'token', result: 'hit' })).toBe(1);
+    expect(metrics.counter('auth_cache_lookups_total', { cache: 'decision', result: 'miss' })).toBe(2);
+    expect(metrics.histogram('auth_upstream_request_duration_seconds', { endpoint: 'introspection', status: '200' }))
+      .toMatchObject({ count: 1 });
+    expect(metrics.histogram('auth_upstream_request_duration_seconds', { endpoint: 'permission', status: '503' }))
+      .toMatchObject({ count: 1 });
+  });
+
+  it('counts invalid credentials as denials', async () => {
+    const svc = new AuthValidatorService(http as any, { metrics });
+    http.post.mockReturnValueOnce(of(mockAxiosResponse({ active: false })));
+
+    await expect(svc.validateToken('bad')).rejects.toThrow('Invalid token');
+    expect(metrics.counter('auth_calls_total', { operation: 'validateToken', outcome: 'deny' })).toBe(1);
+  });
+
+  it('counts guard denials per route, even without audit sinks', () => {
+    const audit = new AuthAuditService({ metrics });
+    audit.record(makeCtx(), { check: 'role', outcome: 'deny', reason: 'denied', startedAt: 0 });
+    audit.record(makeCtx(), { check: 'role', outcome: 'allow', reason: 'granted', startedAt: 0 });
+
+    expect(metrics.counter('auth_guard_denials_total', {
+      check: 'role',
+      route: 'OrdersController.update',
+      reason: 'denied',
+    })).toBe(1);
+    expect(metrics.toPrometheusText()).not.toContain('reason="granted"');
+  });
+});
@@ -0,0 +1,88 @@
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { firstValueFrom, of } from 'rxjs';
+import { AuthGuard } from '../auth.guard';
+import { AuthPropagationInterceptor } from '../auth-propagation.interceptor';
+import { AuthClientProxy, attachAuthMetadata, getCurrentAuth, runWithAuth } from '../auth-propagation';
+import { RequirePermissions } from '../decorators';
+import { PermissionGuard } from '../permission.guard';
+import { TokenExtractorService } from '../token-extractor.service';
+
+const user = { sub: 'u1', accessToken: 'T' };
+
+class Controller {
+  @RequirePermissions('orders.read')
+  handler() { }
+}
+
+const makeRpcCtx = (data: unknown, rpcContext: unknown) =>
+({
+  getType: () => 'rpc',
+  switchToRpc: () => ({ getData: () => data, getContext: () => rpcContext }),
+  getHandler: () => Controller.prototype.handler,
+  getClass: () => Controller,
+} as unknown as ExecutionContext);
+
+describe('RPC auth propagation', () => {
+  it('attaches the current caller to object payloads only', () => {
+    expect(attachAuthMetadata({ id: 1 })).toEqual({ id: 1 });
+
+    runWithAuth({ user, authContext: { orgId: 'org1', workspaceId: 'w1' } }, () => {
+      expect(attachAuthMetadata({ id: 1 })).toEqual({
+        id: 1,
+        $auth: { authorization: 'Bearer T', 'x-org-id': 'org1', 'x-workspace-id': 'w1' },
+      });
+      expect(attachAuthMetadata('plain')).toBe('plain');
+    });
+  });
+
+  it('AuthClientProxy propagates the identity set by AuthPropagationInterceptor', async () => {
+    const client = { send: jest.fn(() => of('ok')), emit: jest.fn(() => of(undefined)) };
+    const proxy = new AuthClientProxy(client, { headers: { orgId: 'X-Tenant' } });
+    const request = { headers: {}, user, authContext: { orgId: 'org1' } };
+    const ctx = {
+      getType: () => 'http',
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+
+    const handler = { handle: () => proxy.send('orders.list', { page: 1 }) };
+    await expect(firstValueFrom(new AuthPropagationInterceptor().intercept(ctx, handler))).resolves.toBe('ok');
+
+    expect(client.send).toHaveBeenCalledWith('orders.list', {
+      page: 1,
+      $auth: { authorization: 'Bearer T', 'x-tenant': 'org1' },
+    });
+    expect(getCurrentAuth()).toBeUndefined();
+  });
+
+  it('guards read token and context from the $auth payload field', async () => {
+    const validateToken = jest.fn().mockResolvedValue(user);
+    const checkPermission = jest.fn().mockResolvedValue(true);
+    const rpcContext: any = { getPattern: () => 'orders.list' };
+    const ctx = makeRpcCtx({ page: 1, $auth: { authorization: 'Bearer T', 'x-org-id': 'org1' } }, rpcContext);
+
+    const reflector = new Reflector();
+    await expect(new AuthGuard(new TokenExtractorService(), { validateToken } as any, reflector).canActivate(ctx))
+      .resolves.toBe(true);
+    await expect(new PermissionGuard(reflector, { checkPermission } as any).canActivate(ctx)).resolves.toBe(true);
+
+    expect(validateToken).toHaveBeenCalledWith('T', expect.objectContaining({ allowStale: true }));
+    expect(rpcContext.user).toBe(user);
+    expect(checkPermission).toHaveBeenCalledWith(
+      user, ['orders.read'], 'all', expect.objectContaining({ orgId: 'org1' }), expect.anything(),
+    );
+  });
+
+  it('guards fall back to transport headers (gRPC metadata, NATS headers)', async () => {
+    const validateToken = jest.fn().mockResolvedValue(user);
+    const guard = new AuthGuard(new TokenExtractorService(), { validateToken } as any, new Reflector());
+
+    const metadata = { get: (name: string) => (name === 'authorization' ? ['Bearer grpc'] : []) };
+    await guard.canActivate(makeRpcCtx({}, metadata));
+    expect(validateToken).toHaveBeenLastCalledWith('grpc', expect.anything());
+
+    const natsContext = { getHeaders: () => ({ authorization: 'Bearer nats' }) };
+    await guard.canActivate(makeRpcCtx({}, natsContext));
+    expect(validateToken).toHaveBeenLastCalledWith('nats', expect.anything());
+  });
+});
@@ -0,0 +1,149 @@
+import { ExecutionContext, ForbiddenException, ServiceUnavailableException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { of, throwError } from 'rxjs';
+import { AuthAuditService } from '../auth-audit';
+import { AuthTracingService, InMemoryAuthTracer, traceContextHeaders } from '../auth-tracing';
+import { AuthValidatorService } from '../auth-validator.service';
+import { RequirePermissions } from '../decorators';
+import { PermissionGuard } from '../permission.guard';
+
+const mockAxiosResponse = <T>(data: T): AxiosResponse<T> => ({
+  data,
+  status: 200,
+  statusText: 'OK',
+  headers: {},
+  config: { headers: {} } as InternalAxiosRequestConfig,
+});
+
+class OrdersController {
+  @RequirePermissions(['orders:read'])
+  list() { }
+}
+
+const makeCtx = (user: any = { sub: 'u1', accessToken: 'T1' }) => ({
+  getType: () => 'http',
+  switchToHttp: () => ({ getRequest: () => ({ headers: { 'x-org-id': 'org1' }, user }) }),
+  getHandler: () => OrdersController.prototype.list,
+  getClass: () => OrdersController,
+} as unknown as ExecutionContext);
+
+describe('traceContextHeaders', () => {
+  const span = (traceId: string, spanId: string, traceState?: string) => ({
+    spanContext: () => ({ traceId, spanId, traceFlags: 1, traceState: traceState ? { serialize: () => traceState } : undefined }),
+  } as any);
+
+  it('formats W3C traceparent and tracestate', () => {
+    expect(traceContextHeaders(span('4bf92f3577b34da6a3ce929d0e0e4736', '00f067aa0ba902b7', 'vendor=1'))).toEqual({
+      traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+      tracestate: 'vendor=1',
+    });
+  });
+
+  it('sends nothing for invalid span contexts', () => {
+    expect(traceContextHeaders(span('0'.repeat(32), '0'.repeat(16)))).toEqual({});
+  });
+});
+
+describe('AuthTracingService', () => {
+  it('is a no-op without a tracer or when disabled', async () => {
+    const tracer = new InMemoryAuthTracer();
+    expect(new AuthTracingService().enabled).toBe(false); // @opentelemetry/api is not installed here
+    const disabled = new AuthTracingService({ tracing: { enabled: false, tracer } });
+
+    await expect(disabled.guard('permission', async () => true)).resolves.toBe(true);
+    await expect(disabled.upstream('role', 'http://auth/role', async (headers) => ({ headers }))).resolves.toEqual({ headers: {} });
+    expect(tracer.spans).toEqual([]);
+  });
+
+  it('uses the global OpenTelemetry tracer when the API is installed', () => {
+    const tracer = new InMemoryAuthTracer();
+    const getTracer = jest.fn(() => tracer);
+    jest.isolateModules(() => {
+      jest.doMock('@opentelemetry/api', () => ({ trace: { getTracer } }), { virtual: true });
+      const { AuthTracingService: IsolatedTracingService } = require('../auth-tracing');
+      expect(new IsolatedTracingService().enabled).toBe(true);
+    });
+    expect(getTracer).toHaveBeenCalledWith('@yagas-cat/nestjs-auth');
+  });
+
+  describe('guards and upstream calls', () => {
+    let tracer: InMemoryAuthTracer;
+    let http: { post: jest.Mock };
+    let validator: AuthValidatorService;
+    let guard: PermissionGuard;
+
+    beforeEach(() => {
+      process.env.NODE_ENV = 'production';
+      tracer = new InMemoryAuthTracer();
+      http = { post: jest.fn() };
+      const options = { tracing: { tracer }, retry: { retries: 0 } };
+      const tracing = new AuthTracingService(options);
+      validator = new AuthValidatorService(http as any, options, undefined, undefined, tracing);
+      guard = new PermissionGuard(new Reflector(), validator, options, new AuthAuditService(options, tracing), tracing);
+    });
+
+    it('nests the upstream call in the guard span and propagates its trace context', async () => {
+      http.post.mockReturnValueOnce(of(mockAxiosResponse({ active: true, sub: 'u1' })));
+      http.post.mockReturnValue(of(mockAxiosResponse({ hasPermission: true })));
+      // Decisions are cached as long as the validated token
+      await validator.validateToken('T1');
+      tracer.clear();
+      http.post.mockClear();
+
+      await tracer.startActiveSpan('GET /orders', {}, async (span) => {
+        await guard.canActivate(makeCtx());
+        span.end();
+      });
+
+      const [upstream, guardSpan, request] = tracer.spans;
+      expect(guardSpan).toMatchObject({
+        name: 'auth.guard.permission',
+        parentSpanId: request.spanId,
+        attributes: {
+          'auth.check': 'permission',
+          'enduser.id': 'u1',
+          'auth.org_id': 'org1',
+          'auth.required_permissions': ['orders:read'],
+          'auth.decision': 'allow',
+          'auth.source': 'remote',
+          'auth.cache_hit': false,
+        },
+      });
+      expect(upstream).toMatchObject({
+        name: 'auth.upstream.permission',
+        kind: 2,
+        parentSpanId: guardSpan.spanId,
+        attributes: { 'http.request.method': 'POST', 'http.response.status_code': 200, 'auth.endpoint': 'permission' },
+      });
+      expect(http.post.mock.calls[0][2].headers).toEqual({
+        traceparent: `00-${request.traceId}-${upstream.spanId}-01`,
+        Authorization: 'Bearer T1',
+      });
+
+      tracer.clear();
+      await guard.canActivate(makeCtx());
+      expect(tracer.spans.map((span) => span.name)).toEqual(['auth.guard.permission']);
+      expect(tracer.spans[0].attributes['auth.cache_hit']).toBe(true);
+    });
+
+    it('records denials as decisions and outages as errors', async () => {
+      http.post
+        .mockReturnValueOnce(of(mockAxiosResponse({ hasPermission: false })))
+        .mockReturnValueOnce(throwError(() => Object.assign(new Error('down'), { response: { status: 503 } })));
+
+      await expect(guard.canActivate(makeCtx())).rejects.toBeInstanceOf(ForbiddenException);
+      const denied = tracer.spans.find((span) => span.name === 'auth.guard.permission');
+      expect(denied?.attributes['auth.decision']).toBe('deny');
+      expect(denied?.status).toBeUndefined();
+
+      tracer.clear();
+      await expect(guard.canActivate(makeCtx({ sub: 'u2', accessToken: 'T2' }))).rejects.toBeInstanceOf(ServiceUnavailableException);
+      const [upstream, failed] = tracer.spans;
+      expect(upstream.attributes).toMatchObject({ 'http.response.status_code': 503, 'error.type': '503' });
+      expect(upstream.status).toEqual({ code: 2, message: 'down' });
+      expect(failed.status?.code).toBe(2);
+      expect(failed.attributes['auth.decision']).toBe('error');
+    });
+  });
+});
@@ -2,7 +2,11 @@ import { HttpService } from '@nestjs/axios';
 import { ServiceUnavailableException, UnauthorizedException } from '@nestjs/common';
 import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import { of, throwError } from 'rxjs';
+import { setTimeout as delay } from 'timers/promises';
+import { LruAuthCacheStore, tokenCacheKey } from '../auth-cache.store';
+import { AuthServiceUnavailableException } from '../auth.exceptions';
 import { AuthValidatorService } from '../auth-validator.service';
+import { InMemoryRevocationTransport } from '../revocation';
 
 // Helper to create an AxiosResponse-like object for tests
 const mockAxiosResponse = <T>(data: T): AxiosResponse<T> => ({
@@ -34,6 +38,32 @@ describe('AuthValidatorService', () => {
     expect(u2.sub).toBe('u1');
   });
 
+  it('keeps RFC 7662 introspection fields', async () => {
+    http.post.mockReturnValueOnce(of(mockAxiosResponse({
+      active: true,
+      sub: 'u1',
+      scope: 'orders:read profile',
+      client_id: 'partner-app',
+      username: 'jdoe',
+      token_type: 'Bearer',
+      exp: 4102444800,
+      aud: 'orders-api',
+      iss: 'https://auth.example.com',
+    })));
+    const user = await svc.validateToken('TR');
+    expect(user).toMatchObject({
+      sub: 'u1',
+      scopes: ['orders:read', 'profile'],
+      clientId: 'partner-app',
+      username: 'jdoe',
+      tokenType: 'Bearer',
+      exp: 4102444800,
+      aud: 'orders-api',
+      iss: 'https://auth.example.com',
+      accessToken: 'TR',
+    });
+  });
+
   it('throws 401 for inactive token', async () => {
     http.post.mockReturnValueOnce(of(mockAxiosResponse({ active: false } as any)));
     await expect(svc.validateToken('T2')).rejects.toBeInstanceOf(UnauthorizedException);
@@ -52,4 +82,352 @@ describe('AuthValidatorService', () => {
     await svc.validateToken('TD4');
     expect(http.post).toHaveBeenCalledTimes(2);
   });
-});
\ No newline at end of file
+
+  it('uses configured endpoints, timeout and cache TTL', async () => {
+    jest.useFakeTimers();
+    svc = new AuthValidatorService(http as any, {
+      introspectionUrl: 'http://auth/introspect',
+      permissionCheckUrl: 'http://auth/permission',
+      httpTimeoutMs: 1234,
+      cacheTtlMs: 1000,
+    });
+    http.post.mockReturnValue(of(mockAxiosResponse({ active: true, sub: 'u3', hasPermission: true })));
+
+    await svc.validateToken('T5');
+    expect(http.post).toHaveBeenLastCalledWith('http://auth/introspect', { token: 'T5' }, { timeout: 1234 });
+    jest.advanceTimersByTime(1001);
+    await svc.validateToken('T5');
+    expect(http.post).toHaveBeenCalledTimes(2);
+
+    await svc.checkPermission({ sub: 'u3', accessToken: 'T5' }, ['a'], 'all', { orgId: 'o1' });
+    expect(http.post).toHaveBeenLastCalledWith('http://auth/permission', expect.any(Object), expect.objectContaining({ timeout: 1234 }));
+    jest.useRealTimers();
+  });
+
+  it('stores results in the injected cache store under a hashed key, capped at token exp', async () => {
+    const store = new LruAuthCacheStore();
+    const set = jest.spyOn(store, 'set');
+    svc = new AuthValidatorService(http as any, {}, undefined, store);
+    const exp = Math.floor(Date.now() / 1000) + 10;
+    http.post.mockReturnValueOnce(of(mockAxiosResponse({ active: true, sub: 'u4', exp })));
+
+    await svc.validateToken('T6');
+    expect(set).toHaveBeenCalledWith(
+      tokenCacheKey('T6'),
+      expect.objectContaining({ value: expect.objectContaining({ sub: 'u4' }) }),
+      expect.any(Number),
+    );
+    expect(set.mock.calls[0][2]).toBeLessThanOrEqual(10_000);
+  });
+
+  it('does not cache tokens that are already expired', async () => {
+    const store = new LruAuthCacheStore();
+    svc = new AuthValidatorService(http as any, {}, undefined, store);
+    http.post.mockReturnValueOnce(of(mockAxiosResponse({ active: true, sub: 'u5', exp: 1 })));
+    await svc.validateToken('T7');
+    expect(store.size).toBe(0);
+  });
+
+  describe('decision cache', () => {
+    const user = { sub: 'u6', accessToken: 'T8' };
+    const ctx = { orgId: 'o1', workspaceId: 'w1' };
+    let store: LruAuthCacheStore;
+
+    beforeEach(async () => {
+      store = new LruAuthCacheStore();
+      svc = new AuthValidatorService(http as any, { decisionCache: { allowTtlMs: 10_000, denyTtlMs: 0 } }, undefined, store);
+      http.post.mockReturnValueOnce(of(mockAxiosResponse({ active: true, sub: 'u6' })));
+      await svc.validateToken('T8');
+      http.post.mockClear();
+    });
+
+    it('caches allow decisions per (sub, context, permissions, match)', async () => {
+      http.post.mockReturnValue(of(mockAxiosResponse({ hasPermission: true, hasRole: true })));
+      await svc.checkPermission(user, ['a', 'b'], 'all', ctx);
+      await expect(svc.checkPermission(user, ['b', 'a'], 'all', ctx)).resolves.toBe(true);
+      await svc.checkPermission(user, ['a', 'b'], 'any', ctx);
+      await svc.checkRole(user, ['a', 'b'], 'all', ctx);
+      expect(http.post).toHaveBeenCalledTimes(3);
+      expect(svc.getDecisionCacheStats()).toEqual({ hits: 1, misses: 3, hitRatio: 0.25 });
+    });
+
+    it('uses the deny TTL for deny decisions', async () => {
+      http.post.mockReturnValue(of(mockAxiosResponse({ hasPermission: false })));
+      await svc.checkPermission(user, ['a'], 'all', ctx);
+      await expect(svc.checkPermission(user, ['a'], 'all', ctx)).resolves.toBe(false);
+      expect(http.post).toHaveBeenCalledTimes(2);
+    });
+
+    it('drops decisions once the token entry is gone', async () => {
+      http.post.mockReturnValue(of(mockAxiosResponse({ hasPermission: true })));
+      await svc.checkPermission(user, ['a'], 'all', ctx);
+      await store.delete(tokenCacheKey('T8'));
+      await svc.checkPermission(user, ['a'], 'all', ctx);
+      expect(http.post).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not cache failed checks', async () => {
+      http.post.mockReturnValueOnce(throwError(() => ({ message: 'Bad Request', response: { status: 400 } })));
+      await expect(svc.checkPermission(user, ['a'], 'all', ctx)).resolves.toBe(false);
+      http.post.mockReturnValueOnce(of(mockAxiosResponse({ hasPermission: true })));
+      await expect(svc.checkPermission(user, ['a'], 'all', ctx)).resolves.toBe(true);
+    });
+  });
+
+  describe('checkPermissionsBatch', () => {
+    const user = { sub: 'u7', accessToken: 'T9' };
+    const checks = [
+      { permissions: ['a'], context: { orgId: 'o1' } },
+      { permissions: ['b'], match: 'any' as const, context: { orgId: 'o1', objectId: 'x' } },
+    ];
+
+    it('sends checks from the same tick in one request to the batch endpoint', async () => {
+      svc = new AuthValidatorService(http as any, { permissionBatchCheckUrl: 'http://auth/batch' });
+      http.post.mockReturnValue(of(mockAxiosResponse({ results: [{ hasPermission: true }, { hasPermission: false }, { hasPermission: true }] })));
+
+      const [first, second] = await Promise.all([
+        svc.checkPermissionsBatch(user, checks),
+        svc.checkPermissionsBatch(user, [{ permissions: ['c'], context: { orgId: 'o2' } }]),
+      ]);
+
+      expect(first).toEqual([true, false]);
+      expect(second).toEqual([true]);
+      expect(http.post).toHaveBeenCalledTimes(1);
+      expect(http.post.mock.calls[0][0]).toBe('http://auth/batch');
+      expect((http.post.mock.calls[0][1] as any).checks).toHaveLength(3);
+    });
+
+    it('falls back to single checks when the batch endpoint is missing', async () => {
+      svc = new AuthValidatorService(http as any, { permissionBatchCheckUrl: 'http://auth/batch' });
+      http.post.mockImplementation((url: string) => url === 'http://auth/batch'
+        ? throwError(() => ({ message: 'Not Found', response: { status: 404 } }))
+        : of(mockAxiosResponse({ hasPermission: true })));
+
+      await expect(svc.checkPermissionsBatch(user, checks)).resolves.toEqual([true, true]);
+      await svc.checkPermissionsBatch(user, [{ permissions: ['c'], context: { orgId: 'o1' } }]);
+      expect(http.post.mock.calls.filter(([url]) => url === 'http://auth/batch')).toHaveLength(1);
+    });
+
+    it('does not cache 4xx batch failures as denials and reports decision sources', async () => {
+      svc = new AuthValidatorService(http as any, { permissionBatchCheckUrl: 'http://auth/batch' });
+      // Decisions are cached as long as the validated token
+      http.post.mockReturnValueOnce(of(mockAxiosResponse({ active: true, sub: 'u7' })));
+      await svc.validateToken('T9');
+      const sources: string[] = [];
+      const options = { onSource: (source: string) => sources.push(source) };
+
+      http.post.mockReturnValueOnce(throwError(() => ({ message: 'Bad Request', response: { status: 400 } })));
+      await expect(svc.checkPermissionsBatch(user, checks, options)).resolves.toEqual([false, false]);
+
+      http.post.mockReturnValueOnce(of(mockAxiosResponse({ results: [{ hasPermission: true }, { hasPermission: false }] })));
+      await expect(svc.checkPermissionsBatch(user, checks, options)).resolves.toEqual([true, false]);
+      await expect(svc.checkPermissionsBatch(user, checks, options)).resolves.toEqual([true, false]);
+
+      expect(http.post).toHaveBeenCalledTimes(3);
+      expect(sources).toEqual(['remote', 'remote', 'remote', 'remote', 'cache', 'cache']);
+    });
+
+    it('does not cache denials for checks missing from the batch response', async () => {
+      svc = new AuthValidatorService(http as any, { permissionBatchCheckUrl: 'http://auth/batch' });
+      http.post.mockReturnValueOnce(of(mockAxiosResponse({ active: true, sub: 'u7' })));
+      await svc.validateToken('T9');
+
+      http.post.mockReturnValueOnce(of(mockAxiosResponse({ results: [{ hasPermission: true }] })));
+      await expect(svc.checkPermissionsBatch(user, checks)).resolves.toEqual([true, false]);
+
+      http.post.mockReturnValueOnce(of(mockAxiosResponse({ results: [{ hasPermission: true }] })));
+      await expect(svc.checkPermissionsBatch(user, checks)).resolves.toEqual([true, true]);
+      expect((http.post.mock.calls[2][1] as any).checks).toHaveLength(1);
+    });
+
+    it('uses single checks without a batch endpoint and propagates 503', async () => {
+      http.post.mockReturnValue(throwError(() => new Error('ECONNREFUSED')));
+      await expect(svc.checkPermissionsBatch(user, checks)).rejects.toBeInstanceOf(ServiceUnavailableException);
+    });
+  });
+
+  describe('resilience', () => {
+    const unavailable = () => throwError(() => ({ message: 'Service Unavailable', response: { status: 503 } }));
+    const fast = { retry: { retries: 2, baseDelayMs: 1, maxDelayMs: 1 } };
+
+    it('retries transient failures', async () => {
+      svc = new AuthValidatorService(http as any, fast);
+      http.post
+        .mockReturnValueOnce(unavailable())
+        .mockReturnValueOnce(of(mockAxiosResponse({ active: true, sub: 'u8' })));
+      await expect(svc.validateToken('T10')).resolves.toMatchObject({ sub: 'u8' });
+      expect(http.post).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry 4xx responses', async () => {
+      svc = new AuthValidatorService(http as any, fast);
+      http.post.mockReturnValue(throwError(() => ({ message: 'Forbidden', response: { status: 403 } })));
+      await expect(svc.checkRole({ sub: 'u8', accessToken: 'T' }, ['admin'], 'all', { orgId: 'o1' })).resolves.toBe(false);
+      expect(http.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('fails fast with Retry-After once the circuit is open', async () => {
+      svc = new AuthValidatorService(http as any, { ...fast, circuitBreaker: { failureThreshold: 3, resetTimeoutMs: 10_000 } });
+      const states: string[] = [];
+      svc.circuitBreaker.on('stateChange', ({ to }) => states.push(to));
+      http.post.mockReturnValue(unavailable());
+
+      await expect(svc.validateToken('T11')).rejects.toBeInstanceOf(ServiceUnavailableException);
+      expect(states).toEqual(['open']);
+
+      http.post.mockClear();
+      const error = await svc.checkPermission({ sub: 'u8', accessToken: 'T' }, ['a'], 'all', { orgId: 'o1' }).catch((e) => e);
+      expect(error).toBeInstanceOf(AuthServiceUnavailableException);
+      expect(error.retryAfterSeconds).toBe(10);
+      expect(http.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('staleWhileError', () => {
+    const user = { sub: 'u9', accessToken: 'T12' };
+    const ctx = { orgId: 'o1' };
+    const down = () => throwError(() => ({ message: 'Bad Gateway', response: { status: 502 } }));
+
+    beforeEach(async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      svc = new AuthValidatorService(http as any, {
+        cacheTtlMs: 1000,
+        decisionCache: { allowTtlMs: 1000 },
+        staleWhileError: { enabled: true, graceMs: 60_000 },
+        retry: { retries: 0 },
+      });
+      http.post.mockReturnValueOnce(of(mockAxiosResponse({ active: true, sub: 'u9' })));
+      await svc.validateToken('T12');
+      http.post.mockReturnValueOnce(of(mockAxiosResponse({ hasPermission: true })));
+      await svc.checkPermission(user, ['a'], 'all', ctx);
+      jest.advanceTimersByTime(5000);
+      http.post.mockReturnValue(down());
+    });
+
+    afterEach(() => jest.useRealTimers());
+
+    it('serves stale token and permission results when core-service fails', async () => {
+      const warn = jest.spyOn((svc as any).logger, 'warn');
+      await expect(svc.validateToken('T12')).resolves.toMatchObject({ sub: 'u9' });
+      await expect(svc.checkPermission(user, ['a'], 'all', ctx)).resolves.toBe(true);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('STALE'), expect.any(Object));
+    });
+
+    it('fails closed when the caller opts out', async () => {
+      await expect(svc.validateToken('T12', { allowStale: false })).rejects.toBeInstanceOf(ServiceUnavailableException);
+      await expect(svc.checkPermission(user, ['a'], 'all', ctx, { allowStale: false })).rejects.toBeInstanceOf(ServiceUnavailableException);
+    });
+
+    it('fails once the grace window has passed', async () => {
+      jest.advanceTimersByTime(60_000);
+      await expect(svc.validateToken('T12')).rejects.toBeInstanceOf(ServiceUnavailableException);
+    });
+
+    it('never serves stale results for rejected tokens', async () => {
+      http.post.mockReturnValue(of(mockAxiosResponse({ active: false })));
+      await expect(svc.validateToken('T12')).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+  });
+
+  describe('revocation', () => {
+    const ok = { active: true, sub: 'u9', hasPermission: true };
+
+    it('invalidateToken drops the cached token and its decisions', async () => {
+      http.post.mockReturnValue(of(mockAxiosResponse(ok)));
+      const user = await svc.validateToken('R1');
+      await svc.checkPermission(user, ['a'], 'all', { orgId: 'o1' });
+      expect(http.post).toHaveBeenCalledTimes(2);
+
+      await svc.invalidateToken('R1');
+      http.post.mockReturnValue(of(mockAxiosResponse({ active: false } as any)));
+      await expect(svc.validateToken('R1')).rejects.toBeInstanceOf(UnauthorizedException);
+      await expect(svc.checkPermission(user, ['a'], 'all', { orgId: 'o1' })).resolves.toBe(false);
+    });
+
+    it('invalidateUser evicts every cached token of the user, on every instance', async () => {
+      const transport = new InMemoryRevocationTransport();
+      const store = new LruAuthCacheStore();
+      const other = new AuthValidatorService(http as any, { revocation: { transport } }, undefined, store);
+      svc = new AuthValidatorService(http as any, { revocation: { transport } });
+      http.post.mockReturnValue(of(mockAxiosResponse(ok)));
+      await other.validateToken('R2');
+      await other.validateToken('R3');
+      expect(http.post).toHaveBeenCalledTimes(2);
+
+      await svc.invalidateUser('u9');
+      await delay(2);
+      await other.validateToken('R2');
+      await other.validateToken('R3');
+      expect(http.post).toHaveBeenCalledTimes(4);
+
+      // Tokens validated after the revocation are cached again
+      await other.validateToken('R2');
+      expect(http.post).toHaveBeenCalledTimes(4);
+
+      other.onModuleDestroy();
+      await svc.invalidateUser('u9');
+      await other.validateToken('R2');
+      expect(http.post).toHaveBeenCalledTimes(4);
+    });
+
+    describe('under local verification', () => {
+      const now = () => Math.floor(Date.now() / 1000);
+      let claims: Record<string, unknown>;
+      let verifier: any;
+
+      beforeEach(() => {
+        claims = { sub: 'u10', jti: 'j1', iat: now() - 60, exp: now() + 60 };
+        verifier = {
+          decode: jest.fn(() => ({ claims })),
+          verify: jest.fn(async () => claims),
+          hasRequiredClaims: () => true,
+          toUser: (c: any, token: string) => ({ sub: c.sub, accessToken: token }),
+        };
+        svc = new AuthValidatorService(http as any, { verificationMode: 'jwks', cacheTtlMs: 0 }, verifier);
+      });
+
+      it('deny-lists the jti of an invalidated JWT', async () => {
+        await expect(svc.validateToken('J1')).resolves.toEqual({ sub: 'u10', accessToken: 'J1' });
+        await svc.invalidateToken('J1');
+        await expect(svc.validateToken('J1')).rejects.toBeInstanceOf(UnauthorizedException);
+
+        claims = { ...claims, jti: 'j2' };
+        await expect(svc.validateToken('J2')).resolves.toEqual({ sub: 'u10', accessToken: 'J2' });
+      });
+
+      it('deny-lists an invalidated JWT without a jti until it expires', async () => {
+        delete claims.jti;
+        await expect(svc.validateToken('J8')).resolves.toEqual({ sub: 'u10', accessToken: 'J8' });
+        await svc.invalidateToken('J8');
+
+        await expect(svc.validateToken('J8')).rejects.toBeInstanceOf(UnauthorizedException);
+        await expect(svc.validateToken('J9')).resolves.toEqual({ sub: 'u10', accessToken: 'J9' });
+      });
+
+      it('rejects JWTs issued before the user was invalidated', async () => {
+        await svc.invalidateUser('u10');
+        await expect(svc.validateToken('J3')).rejects.toBeInstanceOf(UnauthorizedException);
+
+        claims = { ...claims, jti: 'j3', iat: now() + 1 };
+        await expect(svc.validateToken('J4')).resolves.toEqual({ sub: 'u10', accessToken: 'J4' });
+      });
+
+      it('keeps revocation markers when traffic fills the cache', async () => {
+        svc = new AuthValidatorService(http as any, { verificationMode: 'jwks', cacheMaxEntries: 100 }, verifier);
+        const revoked = claims;
+        await svc.invalidateToken('J5');
+        await svc.invalidateUser('u10');
+
+        for (let i = 0; i < 200; i++) {
+          claims = { sub: `other${i}`, jti: `o${i}`, iat: now(), exp: now() + 60 };
+          await svc.validateToken(`F${i}`);
+        }
+
+        claims = { ...revoked, jti: 'j9' };
+        await expect(svc.validateToken('J6')).rejects.toBeInstanceOf(UnauthorizedException);
+        claims = { ...revoked, sub: 'u11' };
+        await expect(svc.validateToken('J7')).rejects.toBeInstanceOf(UnauthorizedException);
+      });
+    });
+  });
+});
@@ -1,23 +1,30 @@
-import { ExecutionContext, ServiceUnavailableException, UnauthorizedException } from '@nestjs/common';
+import { ExecutionContext, ForbiddenException, ServiceUnavailableException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthServiceUnavailableException } from '../auth.exceptions';
 import { AuthValidatorService } from '../auth-validator.service';
 import { AuthGuard } from '../auth.guard';
 import { TokenExtractorService } from '../token-extractor.service';
 
 const makeCtx = (headers: any = {}, cookies: any = {}) =>
 ({
+  getType: () => 'http',
   switchToHttp: () => ({
     getRequest: () => ({ headers, cookies }),
   }),
+  getHandler: () => ({}),
+  getClass: () => ({}),
 } as unknown as ExecutionContext);
 
 describe('AuthGuard', () => {
   let guard: AuthGuard;
   let validator: jest.Mocked<AuthValidatorService>;
+  let reflector: jest.Mocked<Reflector>;
 
   beforeEach(() => {
     validator = { validateToken: jest.fn() } as any;
+    reflector = { getAllAndOverride: jest.fn() } as any;
     const extractor = new TokenExtractorService();
-    guard = new AuthGuard(extractor, validator as any);
+    guard = new AuthGuard(extractor, validator as any, reflector as any);
   });
 
   it('401 when no token', async () => {
@@ -35,4 +42,195 @@ describe('AuthGuard', () => {
     validator.validateToken.mockResolvedValue({ sub: 'u1', accessToken: 'X' } as any);
     await expect(guard.canActivate(ctx)).resolves.toBe(true);
   });
-});
\ No newline at end of file
+
+  it('sets Retry-After when the auth service circuit is open', async () => {
+    const setHeader = jest.fn();
+    const ctx = {
+      getType: () => 'http',
+      switchToHttp: () => ({
+        getRequest: () => ({ headers: { authorization: 'Bearer X' } }),
+        getResponse: () => ({ setHeader }),
+      }),
+      getHandler: () => ({}),
+      getClass: () => ({}),
+    } as unknown as ExecutionContext;
+    validator.validateToken.mockRejectedValue(new AuthServiceUnavailableException('Auth service unavailable', 12));
+    await expect(guard.canActivate(ctx)).rejects.toBeInstanceOf(ServiceUnavailableException);
+    expect(setHeader).toHaveBeenCalledWith('Retry-After', '12');
+  });
+
+  it('disallows stale results on @FailClosed() routes', async () => {
+    reflector.getAllAndOverride.mockImplementation((key: any) => key === 'failClosed');
+    validator.validateToken.mockResolvedValue({ sub: 'u1', accessToken: 'X' } as any);
+    await guard.canActivate(makeCtx({ authorization: 'Bearer X' }));
+    expect(validator.validateToken).toHaveBeenCalledWith('X', expect.objectContaining({ allowStale: false }));
+  });
+
+  it('skips authentication on @Public() routes', async () => {
+    reflector.getAllAndOverride.mockImplementation((key: any) => key === 'isPublic');
+    await expect(guard.canActivate(makeCtx())).resolves.toBe(true);
+    expect(validator.validateToken).not.toHaveBeenCalled();
+  });
+
+  it('lets anonymous callers through on @OptionalAuth() routes', async () => {
+    reflector.getAllAndOverride.mockImplementation((key: any) => key === 'optionalAuth');
+    await expect(guard.canActivate(makeCtx())).resolves.toBe(true);
+
+    validator.validateToken.mockRejectedValue(new UnauthorizedException());
+    await expect(guard.canActivate(makeCtx({ authorization: 'Bearer bad' }))).resolves.toBe(true);
+  });
+
+  it('populates request.user on @OptionalAuth() routes with a valid token', async () => {
+    reflector.getAllAndOverride.mockImplementation((key: any) => key === 'optionalAuth');
+    const request: any = { headers: { authorization: 'Bearer X' } };
+    const ctx = { ...makeCtx(), switchToHttp: () => ({ getRequest: () => request }) } as unknown as ExecutionContext;
+    validator.validateToken.mockResolvedValue({ sub: 'u1', accessToken: 'X' } as any);
+    await expect(guard.canActivate(ctx)).resolves.toBe(true);
+    expect(request.user).toEqual({ sub: 'u1', accessToken: 'X' });
+  });
+
+  it('does not revalidate when an earlier AuthGuard already authenticated the request', async () => {
+    const request: any = { headers: { authorization: 'Bearer X' } };
+    const ctx = { ...makeCtx(), switchToHttp: () => ({ getRequest: () => request }) } as unknown as ExecutionContext;
+    validator.validateToken.mockResolvedValue({ sub: 'u1', accessToken: 'X' } as any);
+    await guard.canActivate(ctx);
+    await expect(guard.canActivate(ctx)).resolves.toBe(true);
+    expect(validator.validateToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves the authorization context to the routes that ask for it', async () => {
+    const orgId = jest.fn();
+    guard = new AuthGuard(new TokenExtractorService(), validator as any, reflector as any, { contextMapping: { orgId } });
+    const request: any = { headers: { authorization: 'Bearer X' } };
+    const ctx = { ...makeCtx(), switchToHttp: () => ({ getRequest: () => request }) } as unknown as ExecutionContext;
+    validator.validateToken.mockResolvedValue({ sub: 'u1', accessToken: 'X' } as any);
+
+    await guard.canActivate(ctx);
+    expect(orgId).not.toHaveBeenCalled();
+    expect(request.authContext).toBeUndefined();
+  });
+
+  it('does not trust a request.user it did not authenticate', async () => {
+    const ctx = {
+      ...makeCtx(),
+      switchToHttp: () => ({ getRequest: () => ({ headers: {}, user: { sub: 'admin' } }) }),
+    } as unknown as ExecutionContext;
+    await expect(guard.canActivate(ctx)).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('never takes the identity of an RPC message from its payload', async () => {
+    const payload = { user: { sub: 'admin' } };
+    const ctx = {
+      getType: () => 'rpc',
+      getArgs: () => [payload, undefined],
+      switchToRpc: () => ({ getData: () => payload, getContext: () => undefined }),
+      getHandler: () => ({}),
+      getClass: () => ({}),
+    } as unknown as ExecutionContext;
+    await expect(guard.canActivate(ctx)).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(validator.validateToken).not.toHaveBeenCalled();
+  });
+
+  describe('GraphQL', () => {
+    const makeGqlCtx = (req: any) =>
+    ({
+      getType: () => 'graphql',
+      getArgByIndex: (index: number) => [{}, {}, { req }, {}][index],
+      getHandler: () => ({}),
+      getClass: () => ({}),
+    } as unknown as ExecutionContext);
+
+    it('authenticates the request held by the GraphQL context', async () => {
+      const req: any = { headers: { authorization: 'Bearer X' } };
+      validator.validateToken.mockResolvedValue({ sub: 'u1', accessToken: 'X' } as any);
+      await expect(guard.canActivate(makeGqlCtx(req))).resolves.toBe(true);
+      expect(req.user).toEqual({ sub: 'u1', accessToken: 'X' });
+    });
+
+    it('sets Retry-After on the underlying HTTP response', async () => {
+      const setHeader = jest.fn();
+      const req: any = { headers: { authorization: 'Bearer X' }, res: { setHeader } };
+      validator.validateToken.mockRejectedValue(new AuthServiceUnavailableException('Auth service unavailable', 3));
+      await expect(guard.canActivate(makeGqlCtx(req))).rejects.toBeInstanceOf(ServiceUnavailableException);
+      expect(setHeader).toHaveBeenCalledWith('Retry-After', '3');
+    });
+  });
+
+  describe('CSRF', () => {
+    const makeHttpCtx = (request: any) =>
+    ({
+      getType: () => 'http',
+      switchToHttp: () => ({ getRequest: () => request }),
+      getHandler: () => ({}),
+      getClass: () => ({}),
+    } as unknown as ExecutionContext);
+
+    beforeEach(() => {
+      const options = { csrf: { enabled: true, allowedOrigins: ['https://app.example.com'] } };
+      guard = new AuthGuard(new TokenExtractorService(), validator as any, reflector as any, options);
+      validator.validateToken.mockResolvedValue({ sub: 'u1', accessToken: 'C' } as any);
+    });
+
+    it('records the token source and skips header-authenticated requests', async () => {
+      const request: any = { method: 'POST', headers: { authorization: 'Bearer X' } };
+      await expect(guard.canActivate(makeHttpCtx(request))).resolves.toBe(true);
+      expect(request.authTokenSource).toBe('header');
+    });
+
+    it('exempts safe methods on cookie-authenticated requests', async () => {
+      const request: any = { method: 'GET', headers: {}, cookies: { access_token: 'C' } };
+      await expect(guard.canActivate(makeHttpCtx(request))).resolves.toBe(true);
+      expect(request.authTokenSource).toBe('cookie');
+    });
+
+    it('requires an allowed Origin or Referer', async () => {
+      const cookies = { access_token: 'C', csrf_token: 'k' };
+      const foreign = { method: 'POST', headers: { origin: 'https://evil.example', 'x-csrf-token': 'k' }, cookies };
+      await expect(guard.canActivate(makeHttpCtx(foreign))).rejects.toBeInstanceOf(ForbiddenException);
+
+      const missing = { method: 'POST', headers: { 'x-csrf-token': 'k' }, cookies };
+      await expect(guard.canActivate(makeHttpCtx(missing))).rejects.toBeInstanceOf(ForbiddenException);
+
+      const referer = { method: 'POST', headers: { referer: 'https://app.example.com/orders', 'x-csrf-token': 'k' }, cookies };
+      await expect(guard.canActivate(makeHttpCtx(referer))).resolves.toBe(true);
+    });
+
+    it('checks GraphQL operations sent over HTTP', async () => {
+      const req = { method: 'POST', headers: { origin: 'https://evil.example' }, cookies: { access_token: 'C' } };
+      const ctx = {
+        getType: () => 'graphql',
+        getArgByIndex: (index: number) => [{}, {}, { req }, {}][index],
+        getHandler: () => ({}),
+        getClass: () => ({}),
+      } as unknown as ExecutionContext;
+      await expect(guard.canActivate(ctx)).rejects.toBeInstanceOf(ForbiddenException);
+      expect(validator.validateToken).not.toHaveBeenCalled();
+    });
+
+    it('checks cookie tokens found by an overridden extractToken()', async () => {
+      class CustomTokenExtractorService extends TokenExtractorService {
+        extractToken(req: any): string | undefined {
+          return req.headers['x-custom-token'] || super.extractToken(req);
+        }
+      }
+      const options = { csrf: { enabled: true, allowedOrigins: ['https://app.example.com'] } };
+      guard = new AuthGuard(new CustomTokenExtractorService(options), validator as any, reflector as any, options);
+
+      const forged = { method: 'POST', headers: { origin: 'https://evil.example' }, cookies: { access_token: 'C' } };
+      await expect(guard.canActivate(makeHttpCtx(forged))).rejects.toBeInstanceOf(ForbiddenException);
+      const custom: any = { method: 'POST', headers: { origin: 'https://evil.example', 'x-custom-token': 'X' } };
+      await expect(guard.canActivate(makeHttpCtx(custom))).resolves.toBe(true);
+      expect(custom.authTokenSource).toBe('custom');
+    });
+
+    it('validates the double-submit token', async () => {
+      const headers = { origin: 'https://app.example.com', 'x-csrf-token': 'k' };
+      const mismatch = { method: 'DELETE', headers, cookies: { access_token: 'C', csrf_token: 'other' } };
+      await expect(guard.canActivate(makeHttpCtx(mismatch))).rejects.toBeInstanceOf(ForbiddenException);
+      expect(validator.validateToken).not.toHaveBeenCalled();
+
+      const matching = { method: 'DELETE', headers, cookies: { access_token: 'C', csrf_token: 'k' } };
+      await expect(guard.canActivate(makeHttpCtx(matching))).resolves.toBe(true);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import 'reflect-metadata';
+import { HttpService } from '@nestjs/axios';
+import { Controller, Get, Injectable, Module } from '@nestjs/common';
+import { APP_GUARD, NestFactory } from '@nestjs/core';
+import { request } from 'http';
+import { of } from 'rxjs';
+import { AUTH_MODULE_OPTIONS } from '../auth.constants';
+import { AuthModule } from '../auth.module';
+import { AuthGuard } from '../auth.guard';
+import { AuthValidatorService } from '../auth-validator.service';
+import { AuthorizeGuard } from '../authorize.guard';
+import { RequireOwnership, RequirePermissions, RequireScopes } from '../decorators';
+import { OwnershipGuard } from '../ownership.guard';
+import { PermissionGuard } from '../permission.guard';
+import { PolicyGuard } from '../policy.guard';
+import { RoleGuard } from '../role.guard';
+import { ScopeGuard } from '../scope.guard';
+import { TokenExtractorService } from '../token-extractor.service';
+
+@Injectable()
+class ConfigStub {
+  get(key: string) {
+    return ({ INTROSPECTION_URL: 'http://auth-b/introspect' } as Record<string, string>)[key];
+  }
+}
+
+@Module({ providers: [ConfigStub], exports: [ConfigStub] })
+class ConfigStubModule { }
+
+const createContext = (module: any) => NestFactory.createApplicationContext(module, { logger: false });
+
+const getStatus = (url: string, headers: Record<string, string>) => new Promise<number | undefined>((resolve, reject) => {
+  request(url, { headers }, (response) => {
+    response.resume();
+    resolve(response.statusCode);
+  }).on('error', reject).end();
+});
+
+describe('AuthModule', () => {
+  it('forRoot provides services, guards and options', async () => {
+    @Module({ imports: [AuthModule.forRoot({ introspectionUrl: 'http://auth-a/introspect', cacheTtlMs: 1000 })] })
+    class AppModule { }
+
+    const app = await createContext(AppModule);
+    expect(app.get(AuthValidatorService)).toBeInstanceOf(AuthValidatorService);
+    expect(app.get(TokenExtractorService)).toBeInstanceOf(TokenExtractorService);
+    expect(app.get(PermissionGuard)).toBeInstanceOf(PermissionGuard);
+    expect(app.get(AUTH_MODULE_OPTIONS)).toEqual({ introspectionUrl: 'http://auth-a/introspect', cacheTtlMs: 1000 });
+    await app.close();
+  });
+
+  it('forRootAsync resolves options from injected providers', async () => {
+    @Module({
+      imports: [
+        AuthModule.forRootAsync({
+          imports: [ConfigStubModule],
+          inject: [ConfigStub],
+          useFactory: (config: ConfigStub) => ({ introspectionUrl: config.get('INTROSPECTION_URL') }),
+        }),
+      ],
+    })
+    class AppModule { }
+
+    const app = await createContext(AppModule);
+    expect(app.get(AUTH_MODULE_OPTIONS)).toEqual({ introspectionUrl: 'http://auth-b/introspect' });
+    await app.close();
+  });
+
+  it('supports two differently configured instances', async () => {
+    @Module({ imports: [AuthModule.forRoot({ cookieName: 'a_token' })] })
+    class ModuleA { }
+    @Module({ imports: [AuthModule.forRoot({ cookieName: 'b_token' })] })
+    class ModuleB { }
+
+    const appA = await createContext(ModuleA);
+    const appB = await createContext(ModuleB);
+    const req = { headers: {}, cookies: { a_token: 'A', b_token: 'B' } } as any;
+    expect(appA.get(TokenExtractorService).extractToken(req)).toBe('A');
+    expect(appB.get(TokenExtractorService).extractToken(req)).toBe('B');
+    await appA.close();
+    await appB.close();
+  });
+
+  it('registers global guards in order when globalGuards is set', () => {
+    const appGuards = (module: any) => module.providers
+      .filter((provider: any) => provider.provide === APP_GUARD)
+      .map((provider: any) => provider.useExisting);
+
+    expect(appGuards(AuthModule.forRoot())).toEqual([]);
+    expect(appGuards(AuthModule.forRoot({ globalGuards: true }))).toEqual([AuthGuard, PermissionGuard, RoleGuard, ScopeGuard, AuthorizeGuard, PolicyGuard, OwnershipGuard]);
+    expect(appGuards(AuthModule.forRootAsync({ globalGuards: true, useFactory: () => ({}) })))
+      .toEqual([AuthGuard, PermissionGuard, RoleGuard, ScopeGuard, AuthorizeGuard, PolicyGuard, OwnershipGuard]);
+  });
+
+  it('evaluates each guard once when decorators repeat the global guards', async () => {
+    process.env.NODE_ENV = 'production';
+    const loaded = jest.fn(() => ({ ownerId: 'u1' }));
+
+    @Injectable()
+    class OrderLoader {
+      load = loaded;
+    }
+
+    @Controller('orders')
+    class OrdersController {
+      @Get(':id')
+      @RequirePermissions('orders:read')
+      @RequireScopes('orders')
+      @RequireOwnership({ loader: OrderLoader })
+      get() {
+        return { ok: true };
+      }
+    }
+
+    @Module({
+      imports: [AuthModule.forRoot({ globalGuards: true, introspectionUrl: 'http://auth/introspect', permissionCheckUrl: 'http://auth/permission' })],
+      controllers: [OrdersController],
+      providers: [OrderLoader],
+    })
+    class AppModule { }
+
+    const app = await NestFactory.create(AppModule, { logger: false });
+    const post = jest.spyOn(app.get(HttpService, { strict: false }), 'post').mockImplementation((url: string) => of({
+      data: url.endsWith('/introspect') ? { active: true, sub: 'u1', scope: 'orders' } : { hasPermission: true },
+      status: 200,
+    } as any));
+    await app.listen(0, '127.0.0.1');
+    try {
+      const status = await getStatus(`${await app.getUrl()}/orders/1`, { Authorization: 'Bearer T1', 'x-org-id': 'org1' });
+
+      expect(status).toBe(200);
+      expect(post.mock.calls.map(([url]) => url)).toEqual(['http://auth/introspect', 'http://auth/permission']);
+      expect(loaded).toHaveBeenCalledTimes(1);
+    } finally {
+      await app.close();
+    }
+  });
+});
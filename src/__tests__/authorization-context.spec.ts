@@ -0,0 +1,84 @@
+import { BadRequestException, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { resolveAuthOptions } from '../auth.options';
+import { body, header, param, query, resolveAuthorizationContext } from '../authorization-context';
+import { AuthzContext } from '../decorators';
+
+const makeCtx = (handler: any, cls: any) =>
+({
+  getHandler: () => handler,
+  getClass: () => cls,
+} as unknown as ExecutionContext);
+
+const makeRequest = (overrides: any = {}) => ({
+  headers: {},
+  params: {},
+  query: {},
+  body: {},
+  ...overrides,
+});
+
+describe('resolveAuthorizationContext', () => {
+  const reflector = new Reflector();
+
+  class Plain { handler() { } }
+
+  it('falls back to the configured x-* headers', async () => {
+    const request = makeRequest({ headers: { 'x-org-id': ' org1 ', 'x-workspace-id': 'w1' } });
+    await expect(resolveAuthorizationContext(
+      makeCtx(Plain.prototype.handler, Plain), request as any, reflector, resolveAuthOptions(),
+    )).resolves.toEqual({ orgId: 'org1', workspaceId: 'w1' });
+  });
+
+  it('keeps the header error message when the default org header is missing', async () => {
+    await expect(resolveAuthorizationContext(
+      makeCtx(Plain.prototype.handler, Plain), makeRequest() as any, reflector, resolveAuthOptions(),
+    )).rejects.toThrow(new BadRequestException('Missing x-org-id header'));
+  });
+
+  it('reads param, query, body and constant sources from @AuthzContext()', async () => {
+    class C {
+      @AuthzContext({
+        orgId: param('orgId'),
+        workspaceId: query('workspace'),
+        objectId: body('project.id'),
+        objectType: 'project',
+      })
+      handler() { }
+    }
+    const request = makeRequest({
+      params: { orgId: 'org1' },
+      query: { workspace: ['w1', 'w2'] },
+      body: { project: { id: 42 } },
+    });
+
+    await expect(resolveAuthorizationContext(
+      makeCtx(C.prototype.handler, C), request as any, reflector, resolveAuthOptions(),
+    )).resolves.toEqual({ orgId: 'org1', workspaceId: 'w1', objectId: '42', objectType: 'project' });
+  });
+
+  it('supports async custom resolvers and module default mappings', async () => {
+    @AuthzContext({ objectId: async (request) => `doc-${request.params.id}` })
+    class C { handler() { } }
+    const options = resolveAuthOptions({
+      contextMapping: { orgId: header('X-Tenant'), objectType: 'document' },
+    });
+    const request = makeRequest({ headers: { 'x-tenant': 't1' }, params: { id: '7' } });
+
+    await expect(resolveAuthorizationContext(
+      makeCtx(C.prototype.handler, C), request as any, reflector, options,
+    )).resolves.toEqual({ orgId: 't1', objectId: 'doc-7', objectType: 'document' });
+  });
+
+  it('handler-level mapping overrides class-level mapping', async () => {
+    @AuthzContext({ orgId: 'class-org' })
+    class C {
+      @AuthzContext({ orgId: param('orgId') })
+      handler() { }
+    }
+
+    await expect(resolveAuthorizationContext(
+      makeCtx(C.prototype.handler, C), makeRequest() as any, reflector, resolveAuthOptions(),
+    )).rejects.toThrow(new BadRequestException('Missing orgId route param'));
+  });
+});
@@ -0,0 +1,101 @@
+import { ExecutionContext, ForbiddenException, ServiceUnavailableException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthValidatorService } from '../auth-validator.service';
+import { AuthorizeGuard } from '../authorize.guard';
+import { Authorize } from '../decorators';
+
+const makeCtx = (handler: any, cls: any, headers: any = { 'x-org-id': 'org1' }) =>
+({
+  getType: () => 'http',
+  switchToHttp: () => ({
+    getRequest: () => ({ headers, user: { sub: 'u1' } }),
+  }),
+  getHandler: () => handler,
+  getClass: () => cls,
+} as unknown as ExecutionContext);
+
+describe('AuthorizeGuard', () => {
+  let validator: jest.Mocked<AuthValidatorService>;
+
+  beforeEach(() => {
+    validator = { checkRole: jest.fn(), checkPermission: jest.fn() } as any;
+  });
+
+  it('passes when no @Authorize metadata is present', async () => {
+    class C { handler() { } }
+    const guard = new AuthorizeGuard(new Reflector(), validator as any);
+    await expect(guard.canActivate(makeCtx(C.prototype.handler, C, {}))).resolves.toBe(true);
+    expect(validator.checkRole).not.toHaveBeenCalled();
+  });
+
+  it('combine=and requires both roles and permissions with their own match modes', async () => {
+    class C {
+      @Authorize({ roles: ['admin', 'owner'], rolesMatch: 'any', permissions: ['a', 'b'] })
+      handler() { }
+    }
+    validator.checkRole.mockResolvedValue(true);
+    validator.checkPermission.mockResolvedValue(false);
+    const guard = new AuthorizeGuard(new Reflector(), validator as any);
+
+    await expect(guard.canActivate(makeCtx(C.prototype.handler, C))).rejects.toBeInstanceOf(ForbiddenException);
+    expect(validator.checkRole).toHaveBeenCalledWith(
+      { sub: 'u1' }, ['admin', 'owner'], 'any', expect.anything(), expect.anything(),
+    );
+    expect(validator.checkPermission).toHaveBeenCalledWith(
+      { sub: 'u1' }, ['a', 'b'], 'all', expect.anything(), expect.anything(),
+    );
+  });
+
+  it('combine=or short-circuits once the role requirement holds', async () => {
+    class C {
+      @Authorize({ roles: 'admin', permissions: 'a', combine: 'or' })
+      handler() { }
+    }
+    validator.checkRole.mockResolvedValue(true);
+    const guard = new AuthorizeGuard(new Reflector(), validator as any);
+
+    await expect(guard.canActivate(makeCtx(C.prototype.handler, C))).resolves.toBe(true);
+    expect(validator.checkPermission).not.toHaveBeenCalled();
+  });
+
+  it('combine=or falls through to permissions when roles fail', async () => {
+    class C {
+      @Authorize({ roles: 'admin', permissions: 'a', combine: 'or' })
+      handler() { }
+    }
+    validator.checkRole.mockResolvedValue(false);
+    validator.checkPermission.mockResolvedValue(true);
+    const guard = new AuthorizeGuard(new Reflector(), validator as any);
+
+    await expect(guard.canActivate(makeCtx(C.prototype.handler, C))).resolves.toBe(true);
+  });
+
+  it('merge evaluates class-level requirements as well', async () => {
+    @Authorize({ roles: 'member' })
+    class C {
+      @Authorize({ permissions: 'a' })
+      handler() { }
+    }
+    validator.checkPermission.mockResolvedValue(true);
+    validator.checkRole.mockResolvedValue(false);
+
+    const override = new AuthorizeGuard(new Reflector(), validator as any);
+    await expect(override.canActivate(makeCtx(C.prototype.handler, C))).resolves.toBe(true);
+    expect(validator.checkRole).not.toHaveBeenCalled();
+
+    const merge = new AuthorizeGuard(new Reflector(), validator as any, { metadataPrecedence: 'merge' });
+    await expect(merge.canActivate(makeCtx(C.prototype.handler, C))).rejects.toBeInstanceOf(ForbiddenException);
+    expect(validator.checkRole).toHaveBeenCalledTimes(1);
+  });
+
+  it('propagates 503 from validator', async () => {
+    class C {
+      @Authorize({ roles: 'admin' })
+      handler() { }
+    }
+    validator.checkRole.mockRejectedValue(new ServiceUnavailableException());
+    const guard = new AuthorizeGuard(new Reflector(), validator as any);
+
+    await expect(guard.canActivate(makeCtx(C.prototype.handler, C))).rejects.toBeInstanceOf(ServiceUnavailableException);
+  });
+});
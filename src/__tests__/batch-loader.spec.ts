@@ -0,0 +1,50 @@
+import { setTimeout as delay } from 'timers/promises';
+import { BatchLoader, mapWithConcurrency } from '../batch-loader';
+
+describe('BatchLoader', () => {
+  it('coalesces loads issued in the same tick', async () => {
+    const batchFn = jest.fn(async (keys: number[]) => keys.map((k) => k * 2));
+    const loader = new BatchLoader(batchFn);
+
+    const results = await Promise.all([1, 2, 3].map(async (k) => {
+      await Promise.resolve();
+      return loader.load(k);
+    }));
+
+    expect(results).toEqual([2, 4, 6]);
+    expect(batchFn).toHaveBeenCalledTimes(1);
+    expect(batchFn).toHaveBeenCalledWith([1, 2, 3]);
+  });
+
+  it('sends one batch per group and isolates failures', async () => {
+    const batchFn = jest.fn(async (keys: string[]) => {
+      if (keys[0].startsWith('b')) {
+        throw new Error('boom');
+      }
+      return keys.map((k) => k.toUpperCase());
+    });
+    const loader = new BatchLoader(batchFn, (key) => key[0]);
+
+    const a = loader.load('a1');
+    const b = loader.load('b1');
+    await expect(a).resolves.toBe('A1');
+    await expect(b).rejects.toThrow('boom');
+    expect(batchFn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('limits in-flight calls and keeps order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await delay(5 - n);
+      inFlight--;
+      return n * 10;
+    });
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(maxInFlight).toBe(2);
+  });
+});
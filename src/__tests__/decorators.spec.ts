@@ -1,8 +1,10 @@
 import 'reflect-metadata';
 import { AuthGuard } from '../auth.guard';
-import { Auth, RequirePermissions, RequireRoles } from '../decorators';
+import { AuthorizeGuard } from '../authorize.guard';
+import { Auth, Authorize, FailClosed, OptionalAuth, Public, RequirePermissions, RequireRoles, RequireScopes } from '../decorators';
 import { PermissionGuard } from '../permission.guard';
 import { RoleGuard } from '../role.guard';
+import { ScopeGuard } from '../scope.guard';
 
 // Helper to read Nest metadata set by decorators
 const getMeta = (key: string, target: any) => (Reflect as any).getMetadata(key, target);
@@ -13,6 +15,20 @@ describe('Decorators', () => {
     Auth()(C);
     const guards = getMeta('__guards__', C) || [];
     expect(guards).toContain(AuthGuard);
+    expect(getMeta('isPublic', C)).toBe(false);
+  });
+
+  it('Public marks the target as public', () => {
+    class C { }
+    Public()(C);
+    expect(getMeta('isPublic', C)).toBe(true);
+  });
+
+  it('OptionalAuth sets metadata and applies AuthGuard', () => {
+    class C { }
+    OptionalAuth()(C);
+    expect(getMeta('optionalAuth', C)).toBe(true);
+    expect(getMeta('__guards__', C)).toContain(AuthGuard);
   });
 
   it('RequirePermissions sets metadata and applies PermissionGuard (default match=all)', () => {
@@ -20,7 +36,7 @@ describe('Decorators', () => {
     RequirePermissions(['a', 'b'])(C);
 
     expect(getMeta('permissions', C)).toEqual(['a', 'b']);
-    expect(getMeta('match', C)).toBe('all');
+    expect(getMeta('permissionsMatch', C)).toBe('all');
 
     const guards = getMeta('__guards__', C) || [];
     expect(guards).toContain(PermissionGuard);
@@ -31,9 +47,43 @@ describe('Decorators', () => {
     RequireRoles('admin', 'any')(C);
 
     expect(getMeta('roles', C)).toEqual(['admin']);
-    expect(getMeta('match', C)).toBe('any');
+    expect(getMeta('rolesMatch', C)).toBe('any');
 
     const guards = getMeta('__guards__', C) || [];
     expect(guards).toContain(RoleGuard);
   });
-});
\ No newline at end of file
+
+  it('RequireScopes sets metadata and applies ScopeGuard (default match all)', () => {
+    class C { }
+    RequireScopes('orders:read')(C);
+
+    expect(getMeta('scopes', C)).toEqual(['orders:read']);
+    expect(getMeta('scopesMatch', C)).toBe('all');
+
+    const guards = getMeta('__guards__', C) || [];
+    expect(guards).toContain(ScopeGuard);
+  });
+
+  it('stacked RequireRoles and RequirePermissions keep separate match modes', () => {
+    class C { }
+    RequireRoles(['admin', 'owner'], 'any')(C);
+    RequirePermissions(['a', 'b'], 'all')(C);
+
+    expect(getMeta('rolesMatch', C)).toBe('any');
+    expect(getMeta('permissionsMatch', C)).toBe('all');
+  });
+
+  it('Authorize sets metadata and applies AuthorizeGuard', () => {
+    class C { }
+    Authorize({ roles: 'admin', permissions: ['a'], combine: 'or' })(C);
+
+    expect(getMeta('authorize', C)).toEqual({ roles: 'admin', permissions: ['a'], combine: 'or' });
+    expect(getMeta('__guards__', C)).toContain(AuthorizeGuard);
+  });
+
+  it('FailClosed sets failClosed metadata', () => {
+    class C { }
+    FailClosed()(C);
+    expect(getMeta('failClosed', C)).toBe(true);
+  });
+});
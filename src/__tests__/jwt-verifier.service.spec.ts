@@ -0,0 +1,187 @@
+import { HttpService } from '@nestjs/axios';
+import { ServiceUnavailableException, UnauthorizedException } from '@nestjs/common';
+import axios from 'axios';
+import { Buffer } from 'buffer';
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { createServer, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { of } from 'rxjs';
+import { AuthValidatorService } from '../auth-validator.service';
+import { JwtVerifierService } from '../jwt-verifier.service';
+
+const b64 = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// Minimal JWS signer used to mint test tokens
+const signJwt = (claims: object, key: KeyObject, header: { alg: string; kid?: string }) => {
+  const input = `${b64({ typ: 'JWT', ...header })}.${b64(claims)}`;
+  const data = Buffer.from(input);
+  const signature = header.alg === 'EdDSA'
+    ? sign(null, data, key)
+    : header.alg === 'ES256'
+      ? sign('sha256', data, { key, dsaEncoding: 'ieee-p1363' })
+      : sign('sha256', data, key);
+  return `${input}.${signature.toString('base64url')}`;
+};
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('JwtVerifierService', () => {
+  const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const ed = generateKeyPairSync('ed25519');
+  const rotated = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  let server: Server;
+  let jwksUri: string;
+  let jwks: { keys: object[] };
+  let requests: number;
+  const serveJwks = (res: ServerResponse) => {
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify(jwks));
+  };
+  let respond = serveJwks;
+
+  const jwk = (key: KeyObject, kid: string) => ({ ...key.export({ format: 'jwk' }), kid, use: 'sig' });
+
+  beforeAll(async () => {
+    // Local JWKS stand-in for core-service
+    server = createServer((_req, res) => {
+      requests++;
+      respond(res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    jwksUri = `http://127.0.0.1:${(server.address() as AddressInfo).port}/.well-known/jwks.json`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  let http: HttpService;
+  const makeVerifier = (jwksOptions: object = {}) =>
+    new JwtVerifierService(http, { jwks: { uri: jwksUri, refreshCooldownMs: 0, ...jwksOptions } });
+
+  beforeEach(() => {
+    requests = 0;
+    respond = serveJwks;
+    jwks = { keys: [jwk(rsa.publicKey, 'rsa-1'), jwk(ec.publicKey, 'ec-1'), jwk(ed.publicKey, 'ed-1')] };
+    http = new HttpService(axios.create());
+  });
+
+  it.each([
+    ['RS256', rsa.privateKey, 'rsa-1'],
+    ['ES256', ec.privateKey, 'ec-1'],
+    ['EdDSA', ed.privateKey, 'ed-1'],
+  ])('verifies %s signatures and caches keys by kid', async (alg, key, kid) => {
+    const verifier = makeVerifier();
+    const token = signJwt({ sub: 'u1', exp: now() + 60 }, key as KeyObject, { alg, kid });
+    await expect(verifier.verify(verifier.decode(token))).resolves.toMatchObject({ sub: 'u1' });
+    await verifier.verify(verifier.decode(token));
+    expect(requests).toBe(1);
+  });
+
+  it('refetches JWKS on unknown kid (key rotation)', async () => {
+    const verifier = makeVerifier();
+    await verifier.verify(verifier.decode(signJwt({ sub: 'u1' }, rsa.privateKey, { alg: 'RS256', kid: 'rsa-1' })));
+
+    jwks = { keys: [jwk(rotated.publicKey, 'rsa-2')] };
+    const token = signJwt({ sub: 'u1' }, rotated.privateKey, { alg: 'RS256', kid: 'rsa-2' });
+    await expect(verifier.verify(verifier.decode(token))).resolves.toMatchObject({ sub: 'u1' });
+    expect(requests).toBe(2);
+  });
+
+  it('times out JWKS fetches after httpTimeoutMs', async () => {
+    let pending: ServerResponse | undefined;
+    respond = (res) => {
+      pending = res;
+    };
+    const verifier = new JwtVerifierService(http, { httpTimeoutMs: 50, jwks: { uri: jwksUri } });
+    const token = signJwt({ sub: 'u1' }, rsa.privateKey, { alg: 'RS256', kid: 'rsa-1' });
+    await expect(verifier.verify(verifier.decode(token))).rejects.toBeInstanceOf(ServiceUnavailableException);
+    pending?.end();
+  });
+
+  it('waits out the refresh cooldown after a failed JWKS fetch', async () => {
+    respond = (res) => {
+      res.statusCode = 500;
+      res.end();
+    };
+    const verifier = makeVerifier({ refreshCooldownMs: 60_000 });
+    const token = signJwt({ sub: 'u1' }, rsa.privateKey, { alg: 'RS256', kid: 'rsa-1' });
+    await expect(verifier.verify(verifier.decode(token))).rejects.toBeInstanceOf(ServiceUnavailableException);
+    await expect(verifier.verify(verifier.decode(token))).rejects.toBeInstanceOf(ServiceUnavailableException);
+    expect(requests).toBe(1);
+  });
+
+  it('rejects bad signatures and algorithm/key type mismatches', async () => {
+    const verifier = makeVerifier();
+    const forged = signJwt({ sub: 'u1' }, rotated.privateKey, { alg: 'RS256', kid: 'rsa-1' });
+    await expect(verifier.verify(verifier.decode(forged))).rejects.toBeInstanceOf(UnauthorizedException);
+    const mismatched = signJwt({ sub: 'u1' }, ec.privateKey, { alg: 'ES256', kid: 'rsa-1' });
+    await expect(verifier.verify(verifier.decode(mismatched))).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('checks exp, nbf, iss and aud', async () => {
+    const verifier = makeVerifier({ issuer: 'https://issuer', audience: ['api'], clockToleranceSec: 0 });
+    const make = (claims: object) =>
+      verifier.decode(signJwt({ sub: 'u1', iss: 'https://issuer', aud: 'api', ...claims }, rsa.privateKey, { alg: 'RS256', kid: 'rsa-1' }));
+
+    await expect(verifier.verify(make({}))).resolves.toBeDefined();
+    await expect(verifier.verify(make({ exp: now() - 1 }))).rejects.toBeInstanceOf(UnauthorizedException);
+    await expect(verifier.verify(make({ nbf: now() + 60 }))).rejects.toBeInstanceOf(UnauthorizedException);
+    await expect(verifier.verify(make({ iss: 'https://other' }))).rejects.toBeInstanceOf(UnauthorizedException);
+    await expect(verifier.verify(make({ aud: ['web'] }))).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('maps claims to User', () => {
+    const verifier = makeVerifier({ claims: { permissions: 'perms' } });
+    expect(verifier.toUser({ sub: 'u1', role: 'admin', perms: 'a b' }, 'T')).toEqual({
+      sub: 'u1',
+      role: 'admin',
+      permissions: ['a', 'b'],
+      accessToken: 'T',
+    });
+  });
+
+  it('maps scope, client and registered claims to User', () => {
+    const verifier = makeVerifier();
+    const user = verifier.toUser(
+      { sub: 'u1', scope: 'orders:read orders:write', azp: 'web', iss: 'idp', aud: ['api'], exp: 100, jti: 'j1' },
+      'T',
+    );
+    expect(user).toMatchObject({
+      scopes: ['orders:read', 'orders:write'],
+      clientId: 'web',
+      iss: 'idp',
+      aud: ['api'],
+      exp: 100,
+      jti: 'j1',
+    });
+    expect(verifier.toUser({ sub: 'u1', scp: ['a'] }, 'T').scopes).toEqual(['a']);
+  });
+
+  describe('AuthValidatorService verification modes', () => {
+    const makeValidator = (verificationMode: 'jwks' | 'hybrid') => {
+      const options = { verificationMode, jwks: { uri: jwksUri, requiredClaims: ['role'] } };
+      jest.spyOn(http, 'post');
+      return new AuthValidatorService(http, options, new JwtVerifierService(http, options));
+    };
+
+    it('jwks mode verifies locally without introspection', async () => {
+      const svc = makeValidator('jwks');
+      const token = signJwt({ sub: 'u1', role: 'admin' }, rsa.privateKey, { alg: 'RS256', kid: 'rsa-1' });
+      await expect(svc.validateToken(token)).resolves.toMatchObject({ sub: 'u1', role: 'admin' });
+      expect(http.post).not.toHaveBeenCalled();
+      await expect(svc.validateToken('opaque-token')).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+
+    it('hybrid mode introspects opaque tokens and tokens missing required claims', async () => {
+      const svc = makeValidator('hybrid');
+      (http.post as jest.Mock).mockReturnValue(of({ data: { active: true, sub: 'u2', role: 'viewer' } }));
+      await expect(svc.validateToken('opaque-token')).resolves.toMatchObject({ sub: 'u2' });
+      const token = signJwt({ sub: 'u1' }, rsa.privateKey, { alg: 'RS256', kid: 'rsa-1' });
+      await expect(svc.validateToken(token)).resolves.toMatchObject({ sub: 'u2', role: 'viewer' });
+      expect(http.post).toHaveBeenCalledTimes(2);
+    });
+  });
+});
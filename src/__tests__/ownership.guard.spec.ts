@@ -0,0 +1,110 @@
+import {
+  BadRequestException,
+  ExecutionContext,
+  ForbiddenException,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthValidatorService } from '../auth-validator.service';
+import { body } from '../authorization-context';
+import { RequireOwnership } from '../decorators';
+import { OwnershipGuard } from '../ownership.guard';
+import type { ResourceLoader } from '../types';
+
+class OrderLoader implements ResourceLoader {
+  orders: Record<string, any> = {
+    o1: { id: 'o1', createdBy: 'u1' },
+    o2: { id: 'o2', createdBy: 'u2' },
+    o3: { id: 'o3', meta: { owners: ['u2', 'u3'] } },
+  };
+
+  load = jest.fn(async (id: string) => this.orders[id]);
+}
+
+class OrdersController {
+  @RequireOwnership({ loader: OrderLoader, ownerField: 'createdBy', bypassPermissions: ['order.manage'] })
+  update() { }
+
+  @RequireOwnership({ loader: OrderLoader, ownerField: 'meta.owners', id: body('orderId') })
+  share() { }
+
+  list() { }
+}
+
+describe('OwnershipGuard', () => {
+  let guard: OwnershipGuard;
+  let validator: jest.Mocked<AuthValidatorService>;
+  let loader: OrderLoader;
+  let moduleRef: { get: jest.Mock };
+
+  const makeCtx = (handler: keyof OrdersController, request: any) => ({
+    getType: () => 'http',
+    switchToHttp: () => ({ getRequest: () => request, getResponse: () => ({ setHeader: jest.fn() }) }),
+    getHandler: () => OrdersController.prototype[handler],
+    getClass: () => OrdersController,
+  } as unknown as ExecutionContext);
+
+  beforeEach(() => {
+    loader = new OrderLoader();
+    moduleRef = { get: jest.fn(() => loader) };
+    validator = { checkPermission: jest.fn() } as any;
+    guard = new OwnershipGuard(new Reflector(), moduleRef as any, validator as any);
+  });
+
+  it('passes routes without ownership requirements', async () => {
+    await expect(guard.canActivate(makeCtx('list', { headers: {}, user: { sub: 'u1' } }))).resolves.toBe(true);
+    expect(moduleRef.get).not.toHaveBeenCalled();
+  });
+
+  it('allows the owner and attaches the loaded resource', async () => {
+    const request: any = { headers: {}, params: { id: 'o1' }, user: { sub: 'u1' } };
+    await expect(guard.canActivate(makeCtx('update', request))).resolves.toBe(true);
+
+    expect(moduleRef.get).toHaveBeenCalledWith(OrderLoader, { strict: false });
+    expect(loader.load).toHaveBeenCalledWith('o1', request);
+    expect(request.resource).toEqual({ id: 'o1', createdBy: 'u1' });
+    expect(validator.checkPermission).not.toHaveBeenCalled();
+  });
+
+  it('lets other users through with a bypass permission', async () => {
+    validator.checkPermission.mockResolvedValue(true);
+    const request: any = { headers: { 'x-org-id': 'org1' }, params: { id: 'o2' }, user: { sub: 'u1' } };
+
+    await expect(guard.canActivate(makeCtx('update', request))).resolves.toBe(true);
+    expect(validator.checkPermission).toHaveBeenCalledWith(
+      { sub: 'u1' }, ['order.manage'], 'any', expect.objectContaining({ orgId: 'org1' }), expect.objectContaining({ allowStale: true }),
+    );
+  });
+
+  it('403 for other users without a bypass permission', async () => {
+    validator.checkPermission.mockResolvedValue(false);
+    const request: any = { headers: { 'x-org-id': 'org1' }, params: { id: 'o2' }, user: { sub: 'u1' } };
+    await expect(guard.canActivate(makeCtx('update', request))).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('400 when the bypass check has no org context, 503 when core-service is down', async () => {
+    await expect(guard.canActivate(makeCtx('update', { headers: {}, params: { id: 'o2' }, user: { sub: 'u1' } })))
+      .rejects.toBeInstanceOf(BadRequestException);
+
+    validator.checkPermission.mockRejectedValue(new ServiceUnavailableException());
+    const request = { headers: { 'x-org-id': 'org1' }, params: { id: 'o2' }, user: { sub: 'u1' } };
+    await expect(guard.canActivate(makeCtx('update', request))).rejects.toBeInstanceOf(ServiceUnavailableException);
+  });
+
+  it('404 for missing resources or ids', async () => {
+    await expect(guard.canActivate(makeCtx('update', { headers: {}, params: { id: 'nope' }, user: { sub: 'u1' } })))
+      .rejects.toBeInstanceOf(NotFoundException);
+    await expect(guard.canActivate(makeCtx('update', { headers: {}, params: {}, user: { sub: 'u1' } })))
+      .rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('reads the id from a custom source and matches nested owner lists', async () => {
+    const request: any = { headers: {}, body: { orderId: 'o3' }, user: { sub: 'u3' } };
+    await expect(guard.canActivate(makeCtx('share', request))).resolves.toBe(true);
+    expect(loader.load).toHaveBeenCalledWith('o3', request);
+
+    await expect(guard.canActivate(makeCtx('share', { ...request, user: { sub: 'u1' } })))
+      .rejects.toBeInstanceOf(ForbiddenException);
+  });
+});
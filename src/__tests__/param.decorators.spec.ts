@@ -0,0 +1,106 @@
+import 'reflect-metadata';
+import { ExecutionContext } from '@nestjs/common';
+import { ROUTE_ARGS_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard } from '../auth.guard';
+import { body, query } from '../authorization-context';
+import { AuthzContext, OptionalAuth, Public } from '../decorators';
+import { AccessToken, AuthContext, CurrentResource, CurrentUser } from '../param.decorators';
+import { TokenExtractorService } from '../token-extractor.service';
+
+// Extract the factory Nest would call for a custom param decorator
+const getFactory = (decorator: ParameterDecorator) => {
+  class C {
+    handler() { }
+  }
+  decorator(C.prototype, 'handler', 0);
+  const args = Reflect.getMetadata(ROUTE_ARGS_METADATA, C, 'handler');
+  const { factory, data } = args[Object.keys(args)[0]];
+  return (ctx: ExecutionContext) => factory(data, ctx);
+};
+
+class TestController {
+  handler() { }
+
+  @OptionalAuth()
+  optional() { }
+}
+
+const makeCtx = (type: string, request: any, handler: keyof TestController = 'handler') => ({
+  getType: () => type,
+  getHandler: () => TestController.prototype[handler],
+  getClass: () => TestController,
+  switchToHttp: () => ({ getRequest: () => request }),
+  switchToRpc: () => ({ getContext: () => request, getData: () => ({}) }),
+  getArgByIndex: (index: number) => (index === 2 ? { req: request } : undefined),
+} as unknown as ExecutionContext);
+
+const user = { sub: 'u1', role: 'admin', permissions: ['a'], accessToken: 'T' };
+
+describe('Param decorators', () => {
+  it.each(['http', 'graphql', 'rpc'])('CurrentUser returns the user in %s contexts', (type) => {
+    expect(getFactory(CurrentUser())(makeCtx(type, { user }))).toBe(user);
+  });
+
+  it('CurrentUser resolves a property path', () => {
+    expect(getFactory(CurrentUser('sub'))(makeCtx('http', { user }))).toBe('u1');
+    expect(getFactory(CurrentUser('permissions.0'))(makeCtx('http', { user }))).toBe('a');
+  });
+
+  it('throws a descriptive error without AuthGuard', () => {
+    expect(() => getFactory(CurrentUser())(makeCtx('http', {}))).toThrow(/@CurrentUser\(\).*TestController\.handler/);
+    expect(() => getFactory(AccessToken())(makeCtx('http', {}))).toThrow(/@AccessToken\(\)/);
+  });
+
+  it('returns undefined for anonymous callers on @OptionalAuth() routes', () => {
+    expect(getFactory(CurrentUser())(makeCtx('http', {}, 'optional'))).toBeUndefined();
+  });
+
+  it('AccessToken returns the validated token', () => {
+    expect(getFactory(AccessToken())(makeCtx('http', { user }))).toBe('T');
+  });
+
+  it('AuthContext falls back to the default headers without AuthGuard', async () => {
+    const factory = getFactory(AuthContext());
+    await expect(factory(makeCtx('http', { headers: { 'x-org-id': 'o1', 'x-object-id': 'x1' } })))
+      .resolves.toEqual({ orgId: 'o1', workspaceId: undefined, objectId: 'x1', objectType: undefined });
+  });
+
+  it('AuthContext resolves through the headers and mapping configured for AuthGuard', async () => {
+    class Routes {
+      @Public()
+      handler() { }
+    }
+    const options = { headers: { orgId: 'x-tenant' }, contextMapping: { workspaceId: query('ws') } };
+    const guard = new AuthGuard(new TokenExtractorService(), {} as any, new Reflector(), options);
+    const request = { headers: { 'x-tenant': 't1', 'x-org-id': 'ignored' }, query: { ws: 'w1' } };
+    const ctx = { ...makeCtx('http', request), getHandler: () => Routes.prototype.handler, getClass: () => Routes };
+
+    await guard.canActivate(ctx as ExecutionContext);
+    await expect(getFactory(AuthContext())(ctx as ExecutionContext))
+      .resolves.toEqual({ orgId: 't1', workspaceId: 'w1', objectId: undefined, objectType: undefined });
+  });
+
+  it('AuthContext resolves every WebSocket message on its own', async () => {
+    class Gateway {
+      @AuthzContext({ orgId: body('orgId') })
+      handler() { }
+    }
+    const client = { handshake: { headers: {} }, data: {} };
+    const message = (data: unknown) => ({
+      getType: () => 'ws',
+      getHandler: () => Gateway.prototype.handler,
+      getClass: () => Gateway,
+      switchToWs: () => ({ getClient: () => client, getData: () => data }),
+    } as unknown as ExecutionContext);
+    const factory = getFactory(AuthContext());
+
+    await expect(factory(message({ orgId: 'org-A' }))).resolves.toMatchObject({ orgId: 'org-A' });
+    await expect(factory(message({ orgId: 'org-B' }))).resolves.toMatchObject({ orgId: 'org-B' });
+  });
+
+  it.each(['http', 'graphql', 'rpc'])('CurrentResource returns the resource loaded for ownership checks in %s contexts', (type) => {
+    const resource = { id: 'o1', createdBy: 'u1' };
+    expect(getFactory(CurrentResource())(makeCtx(type, { user, resource }))).toBe(resource);
+  });
+});
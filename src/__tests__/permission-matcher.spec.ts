@@ -0,0 +1,36 @@
+import { hasPermissions, matchesPermission } from '../permission-matcher';
+
+describe('permission matcher', () => {
+  it('matches exact permissions', () => {
+    expect(matchesPermission('user.read', 'user.read')).toBe(true);
+    expect(matchesPermission('user.read', 'user.write')).toBe(false);
+  });
+
+  it('matches trailing wildcards hierarchically', () => {
+    expect(matchesPermission('user.*', 'user.read')).toBe(true);
+    expect(matchesPermission('user.*', 'user.profile.update')).toBe(true);
+    expect(matchesPermission('user.*', 'user')).toBe(false);
+    expect(matchesPermission('user.*', 'users.read')).toBe(false);
+    expect(matchesPermission('*', 'anything:at.all')).toBe(true);
+  });
+
+  it('matches inner wildcards against exactly one segment', () => {
+    expect(matchesPermission('*:read', 'doc:read')).toBe(true);
+    expect(matchesPermission('*:read', 'doc:write')).toBe(false);
+    expect(matchesPermission('*:read', 'doc:page:read')).toBe(false);
+    expect(matchesPermission('org.*.read', 'org.billing.read')).toBe(true);
+  });
+
+  it('treats regex characters literally', () => {
+    expect(matchesPermission('a+b.*', 'a+b.c')).toBe(true);
+    expect(matchesPermission('a+b.*', 'aab.c')).toBe(false);
+  });
+
+  it('applies all/any match modes', () => {
+    const granted = ['user.*', 'doc:read'];
+    expect(hasPermissions(granted, ['user.read', 'doc:read'], 'all')).toBe(true);
+    expect(hasPermissions(granted, ['user.read', 'doc:write'], 'all')).toBe(false);
+    expect(hasPermissions(granted, ['doc:write', 'user.read'], 'any')).toBe(true);
+    expect(hasPermissions([], ['doc:read'], 'any')).toBe(false);
+  });
+});
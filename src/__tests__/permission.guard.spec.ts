@@ -1,10 +1,13 @@
 import { BadRequestException, ExecutionContext, ForbiddenException, ServiceUnavailableException } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { AuthValidatorService } from '../auth-validator.service';
+import { arg } from '../authorization-context';
+import { AuthzContext, RequirePermissions } from '../decorators';
 import { PermissionGuard } from '../permission.guard';
 
 const makeCtx = (headers: any = {}, user: any = { sub: 'u1' }) =>
 ({
+  getType: () => 'http',
   switchToHttp: () => ({
     getRequest: () => ({ headers, user }),
   }),
@@ -19,18 +22,18 @@ describe('PermissionGuard', () => {
 
   beforeEach(() => {
     validator = { checkPermission: jest.fn() } as any;
-    reflector = { getAllAndOverride: jest.fn() } as any;
+    reflector = { get: jest.fn(), getAllAndOverride: jest.fn() } as any;
     guard = new PermissionGuard(reflector as any, validator as any);
   });
 
   it('400 without x-org-id', async () => {
-    reflector.getAllAndOverride.mockReturnValueOnce(['perm.a']); // permissions
+    reflector.get.mockReturnValueOnce(['perm.a']); // permissions
     const ctx = makeCtx({});
     await expect(guard.canActivate(ctx)).rejects.toBeInstanceOf(BadRequestException);
   });
 
   it('403 when permission check returns false', async () => {
-    reflector.getAllAndOverride.mockImplementation((key: any) =>
+    reflector.get.mockImplementation((key: any) =>
       key === 'permissions' ? ['a', 'b'] : 'all',
     );
     validator.checkPermission.mockResolvedValue(false);
@@ -39,7 +42,7 @@ describe('PermissionGuard', () => {
   });
 
   it('passes when all permissions satisfied', async () => {
-    reflector.getAllAndOverride.mockImplementation((key: any) =>
+    reflector.get.mockImplementation((key: any) =>
       key === 'permissions' ? ['a', 'b'] : 'all',
     );
     validator.checkPermission.mockResolvedValue(true);
@@ -48,11 +51,107 @@ describe('PermissionGuard', () => {
   });
 
   it('propagates 503 from validator', async () => {
-    reflector.getAllAndOverride.mockImplementation((key: any) =>
+    reflector.get.mockImplementation((key: any) =>
       key === 'permissions' ? ['a'] : 'any',
     );
     validator.checkPermission.mockRejectedValue(new ServiceUnavailableException());
     const ctx = makeCtx({ 'x-org-id': 'org1' });
     await expect(guard.canActivate(ctx)).rejects.toBeInstanceOf(ServiceUnavailableException);
   });
-});
\ No newline at end of file
+
+  describe('class and handler metadata', () => {
+    @RequirePermissions('class.perm')
+    class Controller {
+      @RequirePermissions(['a', 'b'], 'any')
+      handler() { }
+    }
+
+    // One context per request
+    const makeCtx = () => ({
+      getType: () => 'http',
+      switchToHttp: () => ({
+        getRequest: () => ({ headers: { 'x-org-id': 'org1' }, user: { sub: 'u1' } }),
+      }),
+      getHandler: () => Controller.prototype.handler,
+      getClass: () => Controller,
+    } as unknown as ExecutionContext);
+
+    it('handler-level metadata overrides class-level by default', async () => {
+      validator.checkPermission.mockResolvedValue(true);
+      guard = new PermissionGuard(new Reflector(), validator as any);
+
+      await expect(guard.canActivate(makeCtx())).resolves.toBe(true);
+      expect(validator.checkPermission).toHaveBeenCalledTimes(1);
+      expect(validator.checkPermission).toHaveBeenCalledWith(
+        { sub: 'u1' }, ['a', 'b'], 'any', expect.anything(), expect.anything(),
+      );
+    });
+
+    it('merge requires both class-level and handler-level permissions', async () => {
+      validator.checkPermission.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+      guard = new PermissionGuard(new Reflector(), validator as any, { metadataPrecedence: 'merge' });
+
+      await expect(guard.canActivate(makeCtx())).rejects.toBeInstanceOf(ForbiddenException);
+      expect(validator.checkPermission).toHaveBeenLastCalledWith(
+        { sub: 'u1' }, ['class.perm'], 'all', expect.anything(), expect.anything(),
+      );
+    });
+  });
+
+  it('protects GraphQL resolvers with context taken from resolver args', async () => {
+    class Resolver {
+      @RequirePermissions('project.update')
+      @AuthzContext({ orgId: arg('input.orgId'), objectId: arg('id'), objectType: 'project' })
+      updateProject() { }
+    }
+    const req: any = { headers: {}, user: { sub: 'u1' } };
+    const ctx = {
+      getType: () => 'graphql',
+      getArgByIndex: (index: number) => [{}, { id: 'p1', input: { orgId: 'org1' } }, { req }, {}][index],
+      getHandler: () => Resolver.prototype.updateProject,
+      getClass: () => Resolver,
+    } as unknown as ExecutionContext;
+    validator.checkPermission.mockResolvedValue(true);
+    guard = new PermissionGuard(new Reflector(), validator as any);
+
+    await expect(guard.canActivate(ctx)).resolves.toBe(true);
+    expect(req.authContext).toEqual({ orgId: 'org1', objectId: 'p1', objectType: 'project' });
+  });
+
+  describe('local evaluation', () => {
+    const requirePermissions = (permissions: string[], match: 'all' | 'any') =>
+      reflector.get.mockImplementation((key: any) => (key === 'permissions' ? permissions : match));
+
+    beforeEach(() => {
+      guard = new PermissionGuard(reflector as any, validator as any, { permissionEvaluation: 'local' });
+    });
+
+    it('decides context-free checks from token permissions with wildcards', async () => {
+      requirePermissions(['user.read', 'doc:read'], 'all');
+      const user = { sub: 'u1', permissions: ['user.*', '*:read'] };
+
+      await expect(guard.canActivate(makeCtx({}, user))).resolves.toBe(true);
+      expect(validator.checkPermission).not.toHaveBeenCalled();
+    });
+
+    it('403 when token permissions do not grant a context-free check', async () => {
+      requirePermissions(['doc:page:read'], 'any');
+      const ctx = makeCtx({}, { sub: 'u1', permissions: ['*:read', 'doc.write'] });
+
+      await expect(guard.canActivate(ctx)).rejects.toBeInstanceOf(ForbiddenException);
+      expect(validator.checkPermission).not.toHaveBeenCalled();
+    });
+
+    it('falls back to core-service for checks with context or tokens without permissions', async () => {
+      requirePermissions(['user.read'], 'all');
+      validator.checkPermission.mockResolvedValue(true);
+
+      await expect(guard.canActivate(makeCtx({ 'x-org-id': 'org1' }, { sub: 'u1', permissions: ['user.*'] })))
+        .resolves.toBe(true);
+      expect(validator.checkPermission).toHaveBeenCalledWith(
+        expect.objectContaining({ sub: 'u1' }), ['user.read'], 'all', expect.objectContaining({ orgId: 'org1' }), expect.anything(),
+      );
+      await expect(guard.canActivate(makeCtx({}, { sub: 'u1' }))).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+});
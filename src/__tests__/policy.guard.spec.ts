@@ -0,0 +1,94 @@
+import { ExecutionContext, ForbiddenException, NotFoundException, ServiceUnavailableException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthValidatorService } from '../auth-validator.service';
+import { Policy } from '../decorators';
+import { PolicyRegistry } from '../policy';
+import { PolicyGuard } from '../policy.guard';
+
+describe('PolicyGuard', () => {
+  const documents: Record<string, any> = { d1: { ownerId: 'u1' }, d2: { ownerId: 'u2' } };
+
+  class DocumentsController {
+    @Policy('document.edit', {
+      resource: (request) => {
+        const document = documents[request.params.id];
+        if (!document) {
+          throw new NotFoundException();
+        }
+        return document;
+      },
+    })
+    edit() { }
+
+    @Policy('org.member')
+    @Policy('document.edit', { resource: () => documents.d1 })
+    stacked() { }
+
+    open() { }
+  }
+
+  const makeCtx = (handler: keyof DocumentsController, params: any = {}, headers: any = {}, user: any = { sub: 'u1' }) => {
+    const request: any = { headers, params, user };
+    const ctx = {
+      getType: () => 'http',
+      switchToHttp: () => ({ getRequest: () => request, getResponse: () => ({ setHeader: jest.fn() }) }),
+      getHandler: () => DocumentsController.prototype[handler],
+      getClass: () => DocumentsController,
+    } as unknown as ExecutionContext;
+    return { ctx, request };
+  };
+
+  let guard: PolicyGuard;
+  let validator: jest.Mocked<AuthValidatorService>;
+
+  beforeEach(() => {
+    validator = { checkPermission: jest.fn(), checkRole: jest.fn() } as any;
+    const registry = new PolicyRegistry({
+      policies: {
+        'document.edit': {
+          rules: [{ id: 'owner', effect: 'allow', when: { eq: [{ var: 'resource.ownerId' }, { var: 'user.sub' }] } }],
+        },
+        'org.member': ({ checks }) => checks.hasRole('member'),
+      },
+    });
+    guard = new PolicyGuard(new Reflector(), validator as any, registry);
+  });
+
+  it('passes routes without policies', async () => {
+    await expect(guard.canActivate(makeCtx('open').ctx)).resolves.toBe(true);
+  });
+
+  it('allows the resource owner and records the decision', async () => {
+    const { ctx, request } = makeCtx('edit', { id: 'd1' });
+    await expect(guard.canActivate(ctx)).resolves.toBe(true);
+    expect(request.policyDecisions).toEqual([
+      { policy: 'document.edit', allowed: true, rule: 'owner', reason: 'Rule owner matched (allow)' },
+    ]);
+  });
+
+  it('403 when the policy denies, and keeps errors of the resource loader', async () => {
+    await expect(guard.canActivate(makeCtx('edit', { id: 'd2' }).ctx)).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(guard.canActivate(makeCtx('edit', { id: 'missing' }).ctx)).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('evaluates stacked policies in order with remote checks in the resolved context', async () => {
+    validator.checkRole.mockResolvedValue(true);
+    const { ctx, request } = makeCtx('stacked', {}, { 'x-org-id': 'org1' });
+
+    await expect(guard.canActivate(ctx)).resolves.toBe(true);
+    expect(request.policyDecisions.map((decision: any) => decision.policy)).toEqual(['org.member', 'document.edit']);
+    expect(validator.checkRole).toHaveBeenCalledWith(
+      { sub: 'u1' }, ['member'], 'all', expect.objectContaining({ orgId: 'org1' }), expect.objectContaining({ allowStale: true }),
+    );
+  });
+
+  it('propagates 503 from remote checks', async () => {
+    validator.checkRole.mockRejectedValue(new ServiceUnavailableException());
+    await expect(guard.canActivate(makeCtx('stacked', {}, { 'x-org-id': 'org1' }).ctx))
+      .rejects.toBeInstanceOf(ServiceUnavailableException);
+  });
+
+  it('403 without a user', async () => {
+    await expect(guard.canActivate(makeCtx('edit', { id: 'd1' }, {}, null).ctx)).rejects.toBeInstanceOf(ForbiddenException);
+  });
+});
@@ -0,0 +1,97 @@
+import { PolicyRegistry } from '../policy';
+import type { JsonPolicy, PolicyInput } from '../types';
+
+const makeInput = (overrides: Partial<PolicyInput> = {}): PolicyInput => ({
+  user: { sub: 'u1', accessToken: 'T', role: 'editor' },
+  resource: { ownerId: 'u1', department: 'sales', status: 'draft' },
+  action: 'document.edit',
+  context: { orgId: 'org1', now: 0, hour: 10, weekday: 2 },
+  checks: { hasPermission: jest.fn().mockResolvedValue(false), hasRole: jest.fn().mockResolvedValue(false) },
+  ...overrides,
+});
+
+const documentEdit: JsonPolicy = {
+  rules: [
+    { id: 'archived', effect: 'deny', when: { eq: [{ var: 'resource.status' }, 'archived'] } },
+    { id: 'owner', effect: 'allow', when: { eq: [{ var: 'resource.ownerId' }, { var: 'user.sub' }] } },
+    {
+      id: 'business-hours-editor',
+      effect: 'allow',
+      when: {
+        all: [
+          { in: [{ var: 'user.role' }, ['editor', 'admin']] },
+          { gte: [{ var: 'context.hour' }, 9] },
+          { lt: [{ var: 'context.hour' }, 17] },
+        ],
+      },
+    },
+  ],
+};
+
+describe('PolicyRegistry', () => {
+  let registry: PolicyRegistry;
+
+  beforeEach(() => {
+    registry = new PolicyRegistry({ policies: { 'document.edit': documentEdit } });
+  });
+
+  it('explains which rule allowed a request', async () => {
+    await expect(registry.evaluate('document.edit', makeInput())).resolves.toEqual({
+      policy: 'document.edit',
+      allowed: true,
+      rule: 'owner',
+      reason: 'Rule owner matched (allow)',
+    });
+  });
+
+  it('lets deny rules win over allow rules', async () => {
+    const decision = await registry.evaluate('document.edit', makeInput({ resource: { ownerId: 'u1', status: 'archived' } }));
+    expect(decision).toMatchObject({ allowed: false, rule: 'archived' });
+  });
+
+  it('denies when no rule matches and for unknown policies', async () => {
+    const input = makeInput({ resource: { ownerId: 'u2' }, context: { orgId: 'org1', now: 0, hour: 20, weekday: 2 } });
+    await expect(registry.evaluate('document.edit', input)).resolves.toMatchObject({ allowed: false, reason: 'No rule matched' });
+    await expect(registry.evaluate('missing', input)).resolves.toMatchObject({ allowed: false, reason: 'Unknown policy missing' });
+  });
+
+  it('composes rules with remote checks', async () => {
+    registry.register('report.view', {
+      rules: [{ id: 'viewer', effect: 'allow', when: { any: [{ hasRole: 'auditor' }, { hasPermission: ['report.view'] }] } }],
+    });
+    const input = makeInput();
+    (input.checks.hasPermission as jest.Mock).mockResolvedValue(true);
+
+    await expect(registry.evaluate('report.view', input)).resolves.toMatchObject({ allowed: true, rule: 'viewer' });
+    expect(input.checks.hasRole).toHaveBeenCalledWith('auditor', 'all');
+    expect(input.checks.hasPermission).toHaveBeenCalledWith(['report.view'], 'all');
+  });
+
+  it('evaluates policy functions', async () => {
+    registry.register('same.department', ({ resource, user }) => ({
+      allowed: (resource as any).department === (user as any).department,
+      reason: 'Department mismatch',
+    }));
+    registry.register('always', () => true);
+
+    await expect(registry.evaluate('same.department', makeInput())).resolves.toEqual({
+      policy: 'same.department',
+      allowed: false,
+      reason: 'Department mismatch',
+    });
+    await expect(registry.evaluate('always', makeInput())).resolves.toMatchObject({ allowed: true, reason: 'Allowed by policy function' });
+  });
+
+  it('rejects malformed declarative policies', () => {
+    expect(() => registry.register('bad', { rules: [{ id: 'a', effect: 'allow', when: { eq: [1] } as any }] }))
+      .toThrow('Invalid policy bad: rules[0].when.eq: expected two operands');
+    expect(() => registry.register('bad', { rules: [{ id: 'a', effect: 'allow', when: { matches: [1, 2] } as any }] }))
+      .toThrow(/rules\[0\]\.when: expected exactly one of/);
+    expect(() => registry.register('bad', {
+      rules: [
+        { id: 'a', effect: 'allow', when: { exists: { var: 'resource' } } },
+        { id: 'a', effect: 'deny', when: { exists: { var: 'resource' } } },
+      ],
+    })).toThrow('Invalid policy bad: rules[1] needs a unique id');
+  });
+});
@@ -0,0 +1,64 @@
+import { CircuitBreaker, CircuitOpenError, withRetry } from '../resilience';
+
+describe('CircuitBreaker', () => {
+  afterEach(() => jest.useRealTimers());
+
+  const fail = () => Promise.reject(new Error('down'));
+
+  it('opens after consecutive failures and fails fast', async () => {
+    const breaker = new CircuitBreaker(2, 1000);
+    const changes: unknown[] = [];
+    breaker.on('stateChange', (change) => changes.push(change));
+
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    expect(breaker.getState()).toBe('open');
+
+    const call = jest.fn(() => Promise.resolve('ok'));
+    await expect(breaker.execute(call)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(call).not.toHaveBeenCalled();
+    expect(changes).toEqual([{ from: 'closed', to: 'open' }]);
+  });
+
+  it('closes again after a successful trial call', async () => {
+    jest.useFakeTimers();
+    const breaker = new CircuitBreaker(1, 1000);
+    const events: string[] = [];
+    ['open', 'half-open', 'close'].forEach((name) => breaker.on(name, () => events.push(name)));
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    jest.advanceTimersByTime(1000);
+    await expect(breaker.execute(() => Promise.resolve('ok'))).resolves.toBe('ok');
+    expect(breaker.getState()).toBe('closed');
+    expect(events).toEqual(['open', 'half-open', 'close']);
+  });
+
+  it('reopens when the trial call fails', async () => {
+    jest.useFakeTimers();
+    const breaker = new CircuitBreaker(1, 1000);
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    jest.advanceTimersByTime(1000);
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('ignores errors that are not failures', async () => {
+    const breaker = new CircuitBreaker(1, 1000);
+    await expect(breaker.execute(fail, () => false)).rejects.toThrow();
+    expect(breaker.getState()).toBe('closed');
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient errors up to the limit', async () => {
+    const fn = jest.fn().mockRejectedValueOnce(new Error('t1')).mockResolvedValueOnce('ok');
+    await expect(withRetry(fn, { retries: 2, baseDelayMs: 1, maxDelayMs: 1, shouldRetry: () => true })).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry non-transient errors', async () => {
+    const fn = jest.fn().mockRejectedValue(new Error('fatal'));
+    await expect(withRetry(fn, { retries: 2, baseDelayMs: 1, maxDelayMs: 1, shouldRetry: () => false })).rejects.toThrow('fatal');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
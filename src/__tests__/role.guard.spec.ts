@@ -5,6 +5,7 @@ import { RoleGuard } from '../role.guard';
 
 const makeCtx = (headers: any = {}, user: any = { sub: 'u1' }) =>
 ({
+  getType: () => 'http',
   switchToHttp: () => ({
     getRequest: () => ({ headers, user }),
   }),
@@ -19,18 +20,18 @@ describe('RoleGuard', () => {
 
   beforeEach(() => {
     validator = { checkRole: jest.fn() } as any;
-    reflector = { getAllAndOverride: jest.fn() } as any;
+    reflector = { get: jest.fn(), getAllAndOverride: jest.fn() } as any;
     guard = new RoleGuard(reflector as any, validator as any);
   });
 
   it('400 without x-org-id', async () => {
-    reflector.getAllAndOverride.mockReturnValueOnce(['role.admin']); // roles
+    reflector.get.mockReturnValueOnce(['role.admin']); // roles
     const ctx = makeCtx({});
     await expect(guard.canActivate(ctx)).rejects.toBeInstanceOf(BadRequestException);
   });
 
   it('403 when role check returns false', async () => {
-    reflector.getAllAndOverride.mockImplementation((key: any) =>
+    reflector.get.mockImplementation((key: any) =>
       key === 'roles' ? ['a', 'b'] : 'all',
     );
     validator.checkRole.mockResolvedValue(false);
@@ -39,7 +40,7 @@ describe('RoleGuard', () => {
   });
 
   it('passes when roles satisfied', async () => {
-    reflector.getAllAndOverride.mockImplementation((key: any) =>
+    reflector.get.mockImplementation((key: any) =>
       key === 'roles' ? ['a', 'b'] : 'any',
     );
     validator.checkRole.mockResolvedValue(true);
@@ -48,7 +49,7 @@ describe('RoleGuard', () => {
   });
 
   it('propagates 503 from validator', async () => {
-    reflector.getAllAndOverride.mockImplementation((key: any) =>
+    reflector.get.mockImplementation((key: any) =>
       key === 'roles' ? ['a'] : 'any',
     );
     validator.checkRole.mockRejectedValue(new ServiceUnavailableException());
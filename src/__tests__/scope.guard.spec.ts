@@ -0,0 +1,51 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ScopeGuard } from '../scope.guard';
+
+const makeCtx = (user: any = { sub: 'client-1', scopes: ['orders:read', 'profile'] }) =>
+({
+  getType: () => 'http',
+  switchToHttp: () => ({
+    getRequest: () => ({ headers: {}, user }),
+  }),
+  getHandler: () => ({}),
+  getClass: () => ({}),
+} as unknown as ExecutionContext);
+
+describe('ScopeGuard', () => {
+  let guard: ScopeGuard;
+  let reflector: jest.Mocked<Reflector>;
+
+  const requireScopes = (scopes: string[], match: 'all' | 'any') =>
+    reflector.get.mockImplementation((key: any) => (key === 'scopes' ? scopes : match));
+
+  beforeEach(() => {
+    reflector = { get: jest.fn(), getAllAndOverride: jest.fn() } as any;
+    guard = new ScopeGuard(reflector as any);
+  });
+
+  it('passes when no scopes are required', () => {
+    expect(guard.canActivate(makeCtx())).toBe(true);
+  });
+
+  it('passes when all required scopes are granted', () => {
+    requireScopes(['orders:read', 'profile'], 'all');
+    expect(guard.canActivate(makeCtx())).toBe(true);
+  });
+
+  it('403 when a required scope is missing (all)', () => {
+    requireScopes(['orders:read', 'orders:write'], 'all');
+    expect(() => guard.canActivate(makeCtx())).toThrow(ForbiddenException);
+  });
+
+  it('passes when any required scope is granted (any)', () => {
+    requireScopes(['orders:write', 'orders:read'], 'any');
+    expect(guard.canActivate(makeCtx())).toBe(true);
+  });
+
+  it('403 for principals without scopes or without a user', () => {
+    requireScopes(['orders:read'], 'any');
+    expect(() => guard.canActivate(makeCtx({ sub: 'u1' }))).toThrow(ForbiddenException);
+    expect(() => guard.canActivate(makeCtx(null))).toThrow(ForbiddenException);
+  });
+});
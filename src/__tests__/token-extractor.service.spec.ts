@@ -1,5 +1,13 @@
 import { Request } from 'express';
+import { UnauthorizedException } from '@nestjs/common';
 import { TokenExtractorService } from '../token-extractor.service';
+import {
+  BearerTokenStrategy,
+  CookieTokenStrategy,
+  HeaderTokenStrategy,
+  QueryTokenStrategy,
+  SignedCookieTokenStrategy,
+} from '../token-strategies';
 
 describe('TokenExtractorService', () => {
   const svc = new TokenExtractorService();
@@ -21,4 +29,86 @@ describe('TokenExtractorService', () => {
     const req = makeReq();
     expect(svc.extractToken(req)).toBeUndefined();
   });
-});
\ No newline at end of file
+
+  it('reports the source of the token', () => {
+    expect(svc.extractTokenWithSource(makeReq({ authorization: 'bearer abc' }))).toEqual({ token: 'abc', source: 'header' });
+    expect(svc.extractTokenWithSource(makeReq({}, { access_token: 'c' }))).toEqual({ token: 'c', source: 'cookie' });
+  });
+
+  describe('extraction strategies', () => {
+    const request = {
+      headers: { authorization: 'Token t1', 'x-service-token': 't2' },
+      cookies: { session: 't3' },
+      signedCookies: { session: 't4', tampered: false },
+      query: { access_token: 't5' },
+    } as unknown as Request;
+
+    it('built-in strategies read their source', () => {
+      expect(new BearerTokenStrategy('Authorization', 'Token').extract(request)).toBe('t1');
+      expect(new BearerTokenStrategy().extract(request)).toBeUndefined();
+      expect(new HeaderTokenStrategy('X-Service-Token').extract(request)).toBe('t2');
+      expect(new CookieTokenStrategy('session').extract(request)).toBe('t3');
+      expect(new SignedCookieTokenStrategy('session').extract(request)).toBe('t4');
+      expect(new SignedCookieTokenStrategy('tampered').extract(request)).toBeUndefined();
+      expect(new QueryTokenStrategy().extract(request)).toBe('t5');
+    });
+
+    it('runs the configured chain in order', () => {
+      const custom = new TokenExtractorService({
+        tokenExtractors: [
+          new HeaderTokenStrategy('x-service-token'),
+          new BearerTokenStrategy(),
+          { source: 'custom', extract: () => 'fallback' },
+        ],
+      });
+      expect(custom.extractTokenWithSource(request)).toEqual({ token: 't2', source: 'header' });
+      expect(custom.extractTokenWithSource(makeReq())).toEqual({ token: 'fallback', source: 'custom' });
+    });
+
+    it('rejects conflicting tokens when configured', () => {
+      const tokenExtractors = [new BearerTokenStrategy(), new CookieTokenStrategy()];
+      const conflicting = makeReq({ authorization: 'Bearer a' }, { access_token: 'b' });
+
+      expect(new TokenExtractorService({ tokenExtractors }).extractToken(conflicting)).toBe('a');
+
+      const strict = new TokenExtractorService({ tokenExtractors, tokenConflictPolicy: 'reject' });
+      expect(() => strict.extractToken(conflicting)).toThrow(UnauthorizedException);
+      expect(strict.extractToken(makeReq({ authorization: 'Bearer a' }, { access_token: 'a' }))).toBe('a');
+    });
+  });
+
+  it('uses an overridden extractToken() for guards too', () => {
+    class CustomTokenExtractorService extends TokenExtractorService {
+      extractToken(req: Request): string | undefined {
+        return (req.headers['x-custom-token'] as string) || super.extractToken(req);
+      }
+    }
+    const custom = new CustomTokenExtractorService();
+
+    expect(custom.extractTokenWithSource(makeReq({ 'x-custom-token': 'c1' }))).toEqual({ token: 'c1', source: 'custom' });
+    expect(custom.extractTokenWithSource(makeReq({ authorization: 'Bearer abc' }))).toEqual({ token: 'abc', source: 'header' });
+    expect(custom.extractTokenWithSource(makeReq({}, { access_token: 'c' }))).toEqual({ token: 'c', source: 'cookie' });
+    expect(custom.extractTokenWithSource(makeReq())).toBeUndefined();
+  });
+
+  describe('extractWsToken', () => {
+    it('prefers the handshake auth payload', () => {
+      expect(svc.extractWsToken({
+        auth: { token: 'Bearer authTok' },
+        query: { token: 'queryTok' },
+        headers: { authorization: 'Bearer headerTok' },
+      })).toBe('authTok');
+    });
+
+    it('falls back to query, Authorization header and cookie', () => {
+      expect(svc.extractWsToken({ query: { access_token: 'queryTok' } })).toBe('queryTok');
+      expect(svc.extractWsToken({ headers: { authorization: 'Bearer headerTok' } })).toBe('headerTok');
+      expect(svc.extractWsToken({ headers: { cookie: 'theme=dark; access_token=cookie%20Tok' } })).toBe('cookie Tok');
+    });
+
+    it('returns undefined when missing', () => {
+      expect(svc.extractWsToken({ headers: {}, query: {}, auth: {} })).toBeUndefined();
+      expect(svc.extractWsToken(undefined)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { Buffer } from 'buffer';
+import { EventEmitter } from 'events';
+import { ExecutionContext, ServiceUnavailableException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthValidatorService } from '../auth-validator.service';
+import { RequirePermissions } from '../decorators';
+import { JwtVerifierService } from '../jwt-verifier.service';
+import { PermissionGuard } from '../permission.guard';
+import { InMemoryRevocationTransport } from '../revocation';
+import { TokenExtractorService } from '../token-extractor.service';
+import { WsAuthService } from '../ws-auth.service';
+
+const makeClient = (handshake: any = {}) => {
+  const emitter = new EventEmitter();
+  return Object.assign(emitter, {
+    id: 's1',
+    handshake,
+    data: {} as any,
+    disconnect: jest.fn(() => emitter.emit('disconnect')),
+  });
+};
+
+const jwtExpiringIn = (seconds: number) => {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'RS256' })}.${encode({ sub: 'u1', exp: Math.floor(Date.now() / 1000) + seconds })}.sig`;
+};
+
+const MAX_TIMEOUT_MS = 2_147_483_647;
+
+describe('WsAuthService', () => {
+  let validator: jest.Mocked<AuthValidatorService>;
+  let service: WsAuthService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    validator = { validateToken: jest.fn(), onRevocation: jest.fn(() => () => undefined) } as any;
+    service = new WsAuthService(
+      new TokenExtractorService(),
+      validator as any,
+      { ws: { revalidateIntervalMs: 1000 } },
+      new JwtVerifierService({} as any),
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('attaches the validated user to client.data', async () => {
+    const client = makeClient({ auth: { token: 'tok' } });
+    validator.validateToken.mockResolvedValue({ sub: 'u1', accessToken: 'tok' });
+
+    await expect(service.authenticate(client)).resolves.toEqual({ sub: 'u1', accessToken: 'tok' });
+    expect(client.data.user).toEqual({ sub: 'u1', accessToken: 'tok' });
+    expect(validator.validateToken).toHaveBeenCalledWith('tok');
+    expect(client.disconnect).not.toHaveBeenCalled();
+  });
+
+  it('disconnects sockets without a valid token', async () => {
+    const anonymous = makeClient();
+    await expect(service.authenticate(anonymous)).resolves.toBeUndefined();
+    expect(anonymous.disconnect).toHaveBeenCalledWith(true);
+
+    const invalid = makeClient({ query: { token: 'bad' } });
+    validator.validateToken.mockRejectedValue(new UnauthorizedException());
+    await expect(service.authenticate(invalid)).resolves.toBeUndefined();
+    expect(invalid.disconnect).toHaveBeenCalledWith(true);
+  });
+
+  it('disconnects when the JWT expires', async () => {
+    const client = makeClient({ auth: { token: jwtExpiringIn(5) } });
+    validator.validateToken.mockResolvedValue({ sub: 'u1', accessToken: 'x' });
+    service = new WsAuthService(
+      new TokenExtractorService(),
+      validator as any,
+      { ws: { revalidateIntervalMs: 0 } },
+      new JwtVerifierService({} as any),
+    );
+
+    await service.authenticate(client);
+    jest.advanceTimersByTime(4000);
+    expect(client.disconnect).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1000);
+    expect(client.disconnect).toHaveBeenCalledWith(true);
+    expect(client.data.user).toBeUndefined();
+  });
+
+  it('disconnects opaque tokens at the introspected exp', async () => {
+    const client = makeClient({ auth: { token: 'opaque' } });
+    validator.validateToken.mockResolvedValue({ sub: 'u1', accessToken: 'opaque', exp: Math.floor(Date.now() / 1000) + 5 });
+
+    await service.authenticate(client);
+    jest.advanceTimersByTime(4000);
+    expect(client.disconnect).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1000);
+    expect(client.disconnect).toHaveBeenCalledWith(true);
+  });
+
+  it('re-arms the expiry timer beyond the setTimeout limit', async () => {
+    const client = makeClient({ auth: { token: jwtExpiringIn(30 * 24 * 3600) } });
+    validator.validateToken.mockResolvedValue({ sub: 'u1', accessToken: 'x' });
+    service = new WsAuthService(
+      new TokenExtractorService(),
+      validator as any,
+      { ws: { revalidateIntervalMs: 0 } },
+      new JwtVerifierService({} as any),
+    );
+
+    await service.authenticate(client);
+    jest.advanceTimersByTime(MAX_TIMEOUT_MS);
+    expect(client.disconnect).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(30 * 24 * 3600 * 1000 - MAX_TIMEOUT_MS);
+    expect(client.disconnect).toHaveBeenCalledWith(true);
+  });
+
+  it('disconnects revoked sockets as soon as the revocation arrives', async () => {
+    const transport = new InMemoryRevocationTransport();
+    const options = { ws: { revalidateIntervalMs: 0 }, revocation: { transport } };
+    const realValidator = new AuthValidatorService({ post: jest.fn() } as any, options);
+    jest.spyOn(realValidator, 'validateToken').mockImplementation(async (token) => ({ sub: `user-${token}`, accessToken: token }));
+    service = new WsAuthService(new TokenExtractorService(), realValidator, options, new JwtVerifierService({} as any));
+    const [a, b, c] = ['a', 'b', 'c'].map((token) => makeClient({ auth: { token } }));
+    await Promise.all([a, b, c].map((client) => service.authenticate(client)));
+
+    await realValidator.invalidateToken('a');
+    expect(a.disconnect).toHaveBeenCalledWith(true);
+    expect(b.disconnect).not.toHaveBeenCalled();
+
+    // Revocation published by another instance
+    transport.publish({ type: 'user', sub: 'user-b', revokedAt: Date.now() });
+    await jest.advanceTimersByTimeAsync(1);
+    expect(b.disconnect).toHaveBeenCalledWith(true);
+    expect(c.disconnect).not.toHaveBeenCalled();
+
+    service.onModuleDestroy();
+    realValidator.onModuleDestroy();
+  });
+
+  it('disconnects when revalidation reports the token as revoked', async () => {
+    const client = makeClient({ auth: { token: 'tok' } });
+    validator.validateToken.mockResolvedValueOnce({ sub: 'u1', accessToken: 'tok' });
+    await service.authenticate(client);
+
+    validator.validateToken.mockRejectedValueOnce(new ServiceUnavailableException());
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(client.disconnect).not.toHaveBeenCalled();
+
+    validator.validateToken.mockRejectedValueOnce(new UnauthorizedException());
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(client.disconnect).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(validator.validateToken).toHaveBeenCalledTimes(3);
+  });
+
+  it('lets PermissionGuard authorize @SubscribeMessage handlers', async () => {
+    class Gateway {
+      @RequirePermissions('chat.send')
+      onMessage() { }
+    }
+    const client = makeClient({ headers: { 'x-org-id': 'org1' } });
+    client.data.user = { sub: 'u1', accessToken: 'tok' };
+    const ctx = {
+      getType: () => 'ws',
+      switchToWs: () => ({ getClient: () => client, getData: () => ({ text: 'hi' }) }),
+      getHandler: () => Gateway.prototype.onMessage,
+      getClass: () => Gateway,
+    } as unknown as ExecutionContext;
+    const checkPermission = jest.fn().mockResolvedValue(true);
+    const guard = new PermissionGuard(new Reflector(), { checkPermission } as any);
+
+    await expect(guard.canActivate(ctx)).resolves.toBe(true);
+    expect(checkPermission).toHaveBeenCalledWith(
+      client.data.user, ['chat.send'], 'all', expect.objectContaining({ orgId: 'org1' }), expect.anything(),
+    );
+    expect(client.data.authContext).toEqual(expect.objectContaining({ orgId: 'org1' }));
+  });
+});
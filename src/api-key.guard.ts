@@ -0,0 +1,19 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from './auth.guard';
+import type { AuthStrategy } from './types';
+
+/**
+ * Authenticates machine clients by the API key header only, even on @Public() routes
+ * Use @Auth({ strategies: ['jwt', 'apiKey'] }) to accept either credential
+ */
+@Injectable()
+export class ApiKeyGuard extends AuthGuard {
+  // Applied explicitly with @UseGuards(), so a controller-level @Public() does not waive the key
+  protected isPublic(): boolean {
+    return false;
+  }
+
+  protected getStrategies(): AuthStrategy[] {
+    return ['apiKey'];
+  }
+}
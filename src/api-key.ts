@@ -0,0 +1,33 @@
+import { createHash } from 'crypto';
+import type { ApiKeyVerifier, User } from './types';
+
+/**
+ * SHA-256 hash (hex) under which HashedApiKeyVerifier looks up a key
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * API key stored by its hash only, with the principal it authenticates
+ */
+export interface HashedApiKey {
+  hash: string;
+  principal: Omit<User, 'accessToken'>;
+}
+
+/**
+ * Local ApiKeyVerifier over a list of hashed keys, so plaintext keys never
+ * have to be stored or configured
+ */
+export class HashedApiKeyVerifier implements ApiKeyVerifier {
+  private readonly keys: Map<string, Omit<User, 'accessToken'>>;
+
+  constructor(keys: HashedApiKey[]) {
+    this.keys = new Map(keys.map(({ hash, principal }) => [hash.toLowerCase(), principal]));
+  }
+
+  async verify(key: string): Promise<Omit<User, 'accessToken'> | undefined> {
+    return this.keys.get(hashApiKey(key));
+  }
+}
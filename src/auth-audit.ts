@@ -0,0 +1,207 @@
+import { ExecutionContext, Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { performance } from 'perf_hooks';
+import { AUTH_MODULE_OPTIONS } from './auth.constants';
+import { ResolvedAuthOptions, resolveAuthOptions } from './auth.options';
+import { getRequest } from './execution-context';
+import { AuthMetricsRecorder } from './auth-metrics';
+import { AuthTracingService } from './auth-tracing';
+import type {
+  AuthAuditCheck,
+  AuthAuditEvent,
+  AuthAuditOutcome,
+  AuthAuditReason,
+  AuthAuditRequirement,
+  AuthAuditSink,
+  AuthDecisionSource,
+  AuthModuleOptions,
+  AuthorizationContext,
+  User,
+} from './types';
+
+const REDACTED = '[REDACTED]';
+
+// Keys whose values are never written, whatever they contain
+const SENSITIVE_KEY = /token|authorization|cookie|secret|password|api[-_]?key|credential/i;
+
+// Compact JWS (header.payload.signature)
+const JWT_PATTERN = /^[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]*$/;
+
+// Any source beats cache, remote beats local: the most expensive source explains the latency
+const SOURCE_RANK: Record<AuthDecisionSource, number> = { cache: 0, local: 1, remote: 2 };
+
+/**
+ * Collects where the results of one decision came from (AuthCheckOptions.onSource)
+ */
+export class DecisionSourceTracker {
+  source?: AuthDecisionSource;
+
+  readonly onSource = (source: AuthDecisionSource): void => {
+    if (!this.source || SOURCE_RANK[source] > SOURCE_RANK[this.source]) {
+      this.source = source;
+    }
+  };
+}
+
+/**
+ * Decision reported by a guard; AuthAuditService adds route, method, request ID and latency
+ */
+export interface AuthAuditEntry {
+  check: AuthAuditCheck;
+  outcome: AuthAuditOutcome;
+  reason: AuthAuditReason;
+  detail?: string;
+  user?: User;
+  required?: AuthAuditRequirement;
+  context?: Partial<AuthorizationContext>;
+  source?: AuthDecisionSource;
+  /** performance.now() when the decision started */
+  startedAt: number;
+  /** Credential presented with the request, redacted wherever it appears */
+  credential?: string;
+}
+
+/**
+ * Records one decision of a guard activation; check, start time and user are bound by the guard
+ */
+export type AuditRecorder = (entry: Omit<AuthAuditEntry, 'check' | 'startedAt' | 'user'>) => void;
+
+/**
+ * Replace sensitive keys, token-like strings and the given secrets with [REDACTED]
+ */
+export function redactAuditEvent<T>(value: T, secrets: string[] = []): T {
+  const known = secrets.filter(Boolean);
+  const redact = (input: unknown, key?: string): unknown => {
+    if (key && SENSITIVE_KEY.test(key)) {
+      return REDACTED;
+    }
+    if (typeof input === 'string') {
+      return JWT_PATTERN.test(input) || known.some((secret) => input.includes(secret)) ? REDACTED : input;
+    }
+    if (Array.isArray(input)) {
+      return input.map((item) => redact(item));
+    }
+    if (input && typeof input === 'object') {
+      return Object.fromEntries(
+        Object.entries(input)
+          .filter(([, entry]) => entry !== undefined)
+          .map(([name, entry]) => [name, redact(entry, name)]),
+      );
+    }
+    return input;
+  };
+  return redact(value) as T;
+}
+
+/**
+ * Writes every event as one JSON line, to stdout by default
+ */
+export class ConsoleJsonAuditSink implements AuthAuditSink {
+  constructor(private readonly write: (line: string) => void = (line) => process.stdout.write(`${line}\n`)) {}
+
+  record(event: AuthAuditEvent): void {
+    this.write(JSON.stringify(event));
+  }
+}
+
+/**
+ * Keeps the latest events in memory, e.g. for tests or an admin endpoint
+ */
+export class InMemoryAuditSink implements AuthAuditSink {
+  readonly events: AuthAuditEvent[] = [];
+
+  constructor(private readonly maxEvents = 1000) {}
+
+  record(event: AuthAuditEvent): void {
+    this.events.push(event);
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+  }
+
+  clear(): void {
+    this.events.length = 0;
+  }
+}
+
+function routeOf(context: ExecutionContext): string {
+  return `${context.getClass().name}.${context.getHandler().name}`;
+}
+
+/**
+ * Turns guard decisions into redacted AuthAuditEvents and fans them out to the configured sinks;
+ * denials are also counted in the auth_guard_denials_total metric, and decisions annotate the guard span
+ */
+@Injectable()
+export class AuthAuditService {
+  private readonly logger = new Logger(AuthAuditService.name);
+  private readonly options: ResolvedAuthOptions['audit'];
+  private readonly metrics: AuthMetricsRecorder;
+
+  constructor(
+    @Optional() @Inject(AUTH_MODULE_OPTIONS) options?: AuthModuleOptions,
+    @Optional() private tracing?: AuthTracingService,
+  ) {
+    const resolved = resolveAuthOptions(options);
+    this.options = resolved.audit;
+    this.metrics = new AuthMetricsRecorder(resolved.metrics);
+  }
+
+  get enabled(): boolean {
+    return this.options.sinks.length > 0;
+  }
+
+  record(context: ExecutionContext, entry: AuthAuditEntry): void {
+    this.tracing?.annotate(entry);
+    if (entry.outcome === 'deny') {
+      this.metrics.denial(entry.check, routeOf(context), entry.reason);
+    }
+    if (!this.enabled) {
+      return;
+    }
+
+    const event = redactAuditEvent(this.toEvent(context, entry), [entry.credential ?? '', entry.user?.accessToken ?? '']);
+    for (const sink of this.options.sinks) {
+      try {
+        const result = sink.record(event);
+        if (result && typeof result.then === 'function') {
+          result.catch((error: unknown) => this.logSinkError(error));
+        }
+      } catch (error) {
+        this.logSinkError(error);
+      }
+    }
+  }
+
+  private toEvent(context: ExecutionContext, entry: AuthAuditEntry): AuthAuditEvent {
+    const request = getRequest<{
+      method?: string;
+      route?: { path?: string };
+      headers?: Record<string, unknown>;
+      id?: unknown;
+    }>(context) || {};
+    const type = context.getType<string>();
+    const requestId = request.headers?.[this.options.requestIdHeader] ?? request.id;
+    const { user } = entry;
+
+    return {
+      timestamp: new Date().toISOString(),
+      check: entry.check,
+      outcome: entry.outcome,
+      reason: entry.reason,
+      detail: entry.detail,
+      principal: user?.sub ? { sub: user.sub, authStrategy: user.authStrategy, clientId: user.clientId } : undefined,
+      route: routeOf(context),
+      method: type === 'http' ? String(request.method || 'GET') : type,
+      path: type === 'http' ? request.route?.path : undefined,
+      required: entry.required,
+      context: entry.context,
+      source: entry.source,
+      latencyMs: Math.round((performance.now() - entry.startedAt) * 100) / 100,
+      requestId: requestId === undefined || requestId === null ? undefined : String(Array.isArray(requestId) ? requestId[0] : requestId),
+    };
+  }
+
+  private logSinkError(error: unknown): void {
+    this.logger.error('Audit sink failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
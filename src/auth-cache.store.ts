@@ -0,0 +1,162 @@
+import { createHash } from 'crypto';
+import type { AuthCacheStore, AuthorizationContext, User } from './types';
+
+/**
+ * Cache key for a token; raw tokens are never used as keys so they
+ * don't leak into shared stores
+ */
+export function tokenCacheKey(token: string): string {
+  return `token:${createHash('sha256').update(token).digest('hex')}`;
+}
+
+/**
+ * Cache key for an API key validation, apart from tokens so that a key is
+ * never accepted as a token (or a token as a key)
+ */
+export function apiKeyCacheKey(key: string): string {
+  return `apikey:${createHash('sha256').update(key).digest('hex')}`;
+}
+
+/**
+ * Cache key of the validation a principal came from
+ */
+export function credentialCacheKey(user: User): string {
+  return user.authStrategy === 'apiKey' ? apiKeyCacheKey(user.accessToken) : tokenCacheKey(user.accessToken);
+}
+
+/**
+ * Cache key of the time a user's tokens were revoked
+ */
+export function revokedUserCacheKey(sub: string): string {
+  return `revoked:user:${createHash('sha256').update(sub).digest('hex')}`;
+}
+
+/**
+ * Cache key of a deny-listed JWT id
+ */
+export function revokedJtiCacheKey(jti: string): string {
+  return `revoked:jti:${createHash('sha256').update(jti).digest('hex')}`;
+}
+
+/**
+ * Cache key of a deny-listed token without a jti, by its token cache key
+ */
+export function revokedTokenCacheKey(tokenKey: string): string {
+  return `revoked:${tokenKey}`;
+}
+
+/**
+ * Cache key for a permission/role decision; list order does not matter
+ */
+export function decisionCacheKey(
+  kind: 'permission' | 'role',
+  sub: string,
+  required: string[],
+  match: 'any' | 'all',
+  context: AuthorizationContext,
+): string {
+  const tuple = [
+    sub,
+    context.orgId,
+    context.workspaceId || '',
+    context.objectType || '',
+    context.objectId || '',
+    [...required].sort(),
+    match,
+  ];
+  return `decision:${kind}:${createHash('sha256').update(JSON.stringify(tuple)).digest('hex')}`;
+}
+
+/**
+ * Bounded in-memory AuthCacheStore evicting the least recently used entry
+ * when full; expired entries are dropped on access
+ */
+export class LruAuthCacheStore implements AuthCacheStore {
+  // Map iteration order doubles as recency order (oldest first)
+  private readonly entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  constructor(private readonly maxEntries = 10_000) { }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    if (ttlMs <= 0) {
+      return;
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Unbounded in-memory AuthCacheStore whose entries only leave by TTL or delete;
+ * holds revocation markers, which must never be evicted by ordinary traffic
+ */
+export class TtlAuthCacheStore implements AuthCacheStore {
+  private readonly entries = new Map<string, { value: unknown; expiresAt: number }>();
+  // Size at which expired entries are swept next; doubles with the live entries
+  private sweepAt = 1_000;
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    if (ttlMs <= 0) {
+      return;
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    if (this.entries.size >= this.sweepAt) {
+      this.sweep();
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+    this.sweepAt = Math.max(1_000, this.entries.size * 2);
+  }
+}
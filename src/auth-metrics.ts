@@ -0,0 +1,237 @@
+import { Logger } from '@nestjs/common';
+import type {
+  AuthAuditCheck,
+  AuthAuditReason,
+  AuthMetricLabels,
+  AuthMetricName,
+  AuthMetrics,
+  PromClientLike,
+  PromRegistryLike,
+} from './types';
+
+interface MetricDefinition {
+  type: 'counter' | 'histogram';
+  help: string;
+  labelNames: readonly string[];
+}
+
+// Same buckets as prom-client, in seconds
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export const AUTH_METRIC_DEFINITIONS: Record<AuthMetricName, MetricDefinition> = {
+  auth_calls_total: {
+    type: 'counter',
+    help: 'Token validations and permission/role checks by operation and outcome',
+    labelNames: ['operation', 'outcome'],
+  },
+  auth_cache_lookups_total: {
+    type: 'counter',
+    help: 'Token and decision cache lookups by cache and result',
+    labelNames: ['cache', 'result'],
+  },
+  auth_upstream_request_duration_seconds: {
+    type: 'histogram',
+    help: 'Duration of HTTP calls to the auth service by endpoint and status',
+    labelNames: ['endpoint', 'status'],
+  },
+  auth_guard_denials_total: {
+    type: 'counter',
+    help: 'Requests denied by auth guards by check, route and reason',
+    labelNames: ['check', 'route', 'reason'],
+  },
+};
+
+export type AuthCallOperation = 'validateToken' | 'validateApiKey' | 'checkPermission' | 'checkRole';
+
+export type AuthUpstreamEndpoint = 'introspection' | 'apiKey' | 'permission' | 'permissionBatch' | 'role';
+
+/**
+ * Typed front of the configured AuthMetrics; a no-op without one, and sink errors never fail the request
+ */
+export class AuthMetricsRecorder {
+  private readonly logger = new Logger(AuthMetricsRecorder.name);
+
+  constructor(private readonly metrics?: AuthMetrics) {}
+
+  call(operation: AuthCallOperation, outcome: 'allow' | 'deny' | 'error'): void {
+    this.report((metrics) => metrics.increment('auth_calls_total', { operation, outcome }));
+  }
+
+  cacheLookup(cache: 'token' | 'decision', hit: boolean): void {
+    this.report((metrics) => metrics.increment('auth_cache_lookups_total', { cache, result: hit ? 'hit' : 'miss' }));
+  }
+
+  /**
+   * @param status - HTTP status, or undefined for network errors and timeouts
+   * @param seconds - Duration of the call
+   */
+  upstream(endpoint: AuthUpstreamEndpoint, status: number | undefined, seconds: number): void {
+    this.report((metrics) => metrics.observe(
+      'auth_upstream_request_duration_seconds',
+      { endpoint, status: status ? String(status) : 'error' },
+      seconds,
+    ));
+  }
+
+  denial(check: AuthAuditCheck, route: string, reason: AuthAuditReason): void {
+    this.report((metrics) => metrics.increment('auth_guard_denials_total', { check, route, reason }));
+  }
+
+  private report(fn: (metrics: AuthMetrics) => void): void {
+    if (!this.metrics) {
+      return;
+    }
+    try {
+      fn(this.metrics);
+    } catch (error) {
+      this.logger.error('Metrics sink failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+}
+
+interface HistogramSeries {
+  /** Observations per bucket, not cumulative */
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labelNames: readonly string[], values: string[], extra = ''): string {
+  const pairs = labelNames.map((label, i) => `${label}="${escapeLabelValue(values[i])}"`);
+  if (extra) {
+    pairs.push(extra);
+  }
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Keeps metrics in memory and renders them in the Prometheus text exposition format,
+ * e.g. for a /metrics endpoint without prom-client, or for tests
+ */
+export class InMemoryAuthMetrics implements AuthMetrics {
+  private readonly counters = new Map<AuthMetricName, Map<string, number>>();
+  private readonly histograms = new Map<AuthMetricName, Map<string, HistogramSeries>>();
+
+  constructor(private readonly buckets: number[] = DEFAULT_LATENCY_BUCKETS) {}
+
+  increment(name: AuthMetricName, labels: AuthMetricLabels, value = 1): void {
+    const series = this.seriesOf(this.counters, name);
+    const key = this.keyOf(name, labels);
+    series.set(key, (series.get(key) ?? 0) + value);
+  }
+
+  observe(name: AuthMetricName, labels: AuthMetricLabels, value: number): void {
+    const series = this.seriesOf(this.histograms, name);
+    const key = this.keyOf(name, labels);
+    const histogram = series.get(key) ?? { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    if (bucket >= 0) {
+      histogram.buckets[bucket]++;
+    }
+    histogram.sum += value;
+    histogram.count++;
+    series.set(key, histogram);
+  }
+
+  /**
+   * Current value of a counter series (0 when never incremented)
+   */
+  counter(name: AuthMetricName, labels: AuthMetricLabels): number {
+    return this.counters.get(name)?.get(this.keyOf(name, labels)) ?? 0;
+  }
+
+  /**
+   * Observation count and sum of a histogram series
+   */
+  histogram(name: AuthMetricName, labels: AuthMetricLabels): { count: number; sum: number } | undefined {
+    const series = this.histograms.get(name)?.get(this.keyOf(name, labels));
+    return series && { count: series.count, sum: series.sum };
+  }
+
+  reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format (version 0.0.4)
+   */
+  toPrometheusText(): string {
+    const lines: string[] = [];
+    for (const [name, definition] of Object.entries(AUTH_METRIC_DEFINITIONS) as Array<[AuthMetricName, MetricDefinition]>) {
+      lines.push(`# HELP ${name} ${definition.help}`, `# TYPE ${name} ${definition.type}`);
+      if (definition.type === 'counter') {
+        for (const [key, value] of this.counters.get(name) ?? []) {
+          lines.push(`${name}${formatLabels(definition.labelNames, JSON.parse(key))} ${value}`);
+        }
+        continue;
+      }
+      for (const [key, series] of this.histograms.get(name) ?? []) {
+        const values: string[] = JSON.parse(key);
+        let cumulative = 0;
+        this.buckets.forEach((bound, i) => {
+          cumulative += series.buckets[i];
+          lines.push(`${name}_bucket${formatLabels(definition.labelNames, values, `le="${bound}"`)} ${cumulative}`);
+        });
+        lines.push(
+          `${name}_bucket${formatLabels(definition.labelNames, values, 'le="+Inf"')} ${series.count}`,
+          `${name}_sum${formatLabels(definition.labelNames, values)} ${series.sum}`,
+          `${name}_count${formatLabels(definition.labelNames, values)} ${series.count}`,
+        );
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  private seriesOf<T>(store: Map<AuthMetricName, Map<string, T>>, name: AuthMetricName): Map<string, T> {
+    let series = store.get(name);
+    if (!series) {
+      series = new Map();
+      store.set(name, series);
+    }
+    return series;
+  }
+
+  // Label values in definition order, so the same labels always map to one series
+  private keyOf(name: AuthMetricName, labels: AuthMetricLabels): string {
+    return JSON.stringify(AUTH_METRIC_DEFINITIONS[name].labelNames.map((label) => labels[label] ?? ''));
+  }
+}
+
+type PromMetric = { inc?(labels: AuthMetricLabels, value?: number): void; observe?(labels: AuthMetricLabels, value: number): void };
+
+/**
+ * Adapter registering the auth metrics with prom-client, which stays an optional dependency
+ * @example new PromClientAuthMetrics(require('prom-client'))
+ */
+export class PromClientAuthMetrics implements AuthMetrics {
+  private readonly metrics = new Map<AuthMetricName, PromMetric>();
+
+  /**
+   * @param client - The prom-client module
+   * @param options - { registry?, buckets? } - registry defaults to the global prom-client registry
+   */
+  constructor(client: PromClientLike, options: { registry?: PromRegistryLike; buckets?: number[] } = {}) {
+    const registry = options.registry || client.register;
+    for (const [name, definition] of Object.entries(AUTH_METRIC_DEFINITIONS) as Array<[AuthMetricName, MetricDefinition]>) {
+      // Reuse metrics registered by an earlier instance; prom-client rejects duplicate names
+      const existing = registry.getSingleMetric(name) as PromMetric | undefined;
+      const config = { name, help: definition.help, labelNames: definition.labelNames, registers: [registry] };
+      this.metrics.set(name, existing || (definition.type === 'counter'
+        ? new client.Counter(config)
+        : new client.Histogram({ ...config, buckets: options.buckets || DEFAULT_LATENCY_BUCKETS })));
+    }
+  }
+
+  increment(name: AuthMetricName, labels: AuthMetricLabels, value = 1): void {
+    this.metrics.get(name)?.inc?.(labels, value);
+  }
+
+  observe(name: AuthMetricName, labels: AuthMetricLabels, value: number): void {
+    this.metrics.get(name)?.observe?.(labels, value);
+  }
+}
@@ -0,0 +1,18 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { Request } from 'express';
+import { Observable } from 'rxjs';
+import { runWithAuth } from './auth-propagation';
+import { getRequest } from './execution-context';
+
+/**
+ * Make the authenticated caller of a handler available to getCurrentAuth()
+ * and AuthClientProxy for the whole handler execution
+ */
+@Injectable()
+export class AuthPropagationInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = getRequest<Request | undefined>(context);
+    const state = { user: request?.user, authContext: request?.authContext };
+    return new Observable((subscriber) => runWithAuth(state, () => next.handle().subscribe(subscriber)));
+  }
+}
@@ -0,0 +1,77 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Observable } from 'rxjs';
+import { RPC_AUTH_FIELD } from './auth.constants';
+import { resolveAuthOptions } from './auth.options';
+import type { AuthModuleOptions, AuthPropagationState, RpcClient } from './types';
+
+const authStorage = new AsyncLocalStorage<AuthPropagationState>();
+
+/**
+ * Run fn with the given caller identity visible to getCurrentAuth()
+ */
+export function runWithAuth<T>(state: AuthPropagationState, fn: () => T): T {
+  return authStorage.run(state, fn);
+}
+
+/**
+ * Caller identity of the handler currently executing, set by AuthPropagationInterceptor
+ */
+export function getCurrentAuth(): AuthPropagationState | undefined {
+  return authStorage.getStore();
+}
+
+/**
+ * Auth headers (authorization, x-org-id, ...) of the current caller
+ * @returns undefined outside an authenticated handler
+ */
+export function getAuthMetadata(options?: AuthModuleOptions): Record<string, string> | undefined {
+  const state = getCurrentAuth();
+  if (!state?.user?.accessToken) {
+    return undefined;
+  }
+  const { headers } = resolveAuthOptions(options);
+  const metadata: Record<string, string> = { [headers.authorization]: `Bearer ${state.user.accessToken}` };
+  const { orgId, workspaceId, objectId } = state.authContext || {};
+  if (orgId) {
+    metadata[headers.orgId] = orgId;
+  }
+  if (workspaceId) {
+    metadata[headers.workspaceId] = workspaceId;
+  }
+  if (objectId) {
+    metadata[headers.objectId] = objectId;
+  }
+  return metadata;
+}
+
+/**
+ * Add the current caller's auth headers to an RPC payload under $auth
+ * Non-object payloads and calls outside an authenticated handler are left unchanged
+ */
+export function attachAuthMetadata<T>(data: T, options?: AuthModuleOptions): T {
+  const metadata = getAuthMetadata(options);
+  if (!metadata || typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return data;
+  }
+  return { ...data, [RPC_AUTH_FIELD]: metadata };
+}
+
+/**
+ * ClientProxy wrapper propagating the current caller's token and context
+ * to every outgoing message
+ * @example this.client = new AuthClientProxy(clientProxy, authOptions)
+ */
+export class AuthClientProxy implements RpcClient {
+  constructor(
+    private readonly client: RpcClient,
+    private readonly options?: AuthModuleOptions,
+  ) { }
+
+  send<TResult = unknown, TInput = unknown>(pattern: unknown, data: TInput): Observable<TResult> {
+    return this.client.send<TResult, TInput>(pattern, attachAuthMetadata(data, this.options));
+  }
+
+  emit<TResult = unknown, TInput = unknown>(pattern: unknown, data: TInput): Observable<TResult> {
+    return this.client.emit<TResult, TInput>(pattern, attachAuthMetadata(data, this.options));
+  }
+}
@@ -0,0 +1,227 @@
+import { HttpException, Inject, Injectable, Optional } from '@nestjs/common';
+import type { AxiosError } from 'axios';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { createRequire } from 'module';
+import { join } from 'path';
+import { AUTH_MODULE_OPTIONS } from './auth.constants';
+import { resolveAuthOptions } from './auth.options';
+import type { AuthAuditEntry } from './auth-audit';
+import type { AuthUpstreamEndpoint } from './auth-metrics';
+import type { AuthAuditCheck, AuthModuleOptions, AuthSpan, AuthSpanAttributes, AuthTracer } from './types';
+
+// OpenTelemetry SpanKind and SpanStatusCode values
+const SPAN_KIND_INTERNAL = 0;
+const SPAN_KIND_CLIENT = 2;
+const STATUS_ERROR = 2;
+
+const TRACER_NAME = '@yagas-cat/nestjs-auth';
+
+// Span of the running guard activation; AuthAuditService adds the decision to it
+const guardSpans = new AsyncLocalStorage<AuthSpan>();
+
+/**
+ * Global OpenTelemetry tracer, or undefined when @opentelemetry/api is not installed
+ * The ES module build has no require and resolves the API from the working directory
+ */
+function loadOpenTelemetryTracer(): AuthTracer | undefined {
+  try {
+    const load = typeof require === 'function' ? require : createRequire(join(process.cwd(), 'index.js'));
+    const api = load('@opentelemetry/api') as { trace: { getTracer(name: string): AuthTracer } };
+    return api.trace.getTracer(TRACER_NAME);
+  } catch {
+    return undefined;
+  }
+}
+
+// Denials (401, 403, 400, 404) are expected outcomes of a guard, not span errors
+function isGuardFailure(error: unknown): boolean {
+  return !(error instanceof HttpException) || error.getStatus() >= 500;
+}
+
+function decisionAttributes(entry: AuthAuditEntry): AuthSpanAttributes {
+  const { user, required, context, source } = entry;
+  const attributes: Record<string, AuthSpanAttributes[string] | undefined> = {
+    'enduser.id': user?.sub,
+    'auth.decision': entry.outcome,
+    'auth.reason': entry.reason,
+    'auth.source': source,
+    'auth.cache_hit': source ? source === 'cache' : undefined,
+    'auth.org_id': context?.orgId,
+    'auth.workspace_id': context?.workspaceId,
+    'auth.required_permissions': required?.permissions,
+    'auth.required_roles': required?.roles,
+    'auth.required_scopes': required?.scopes,
+    'auth.policy': required?.policy,
+    'auth.match': required?.match,
+  };
+  return Object.fromEntries(
+    Object.entries(attributes).filter(([, value]) => value !== undefined),
+  ) as AuthSpanAttributes;
+}
+
+/**
+ * W3C trace context headers (traceparent, tracestate) continuing the trace of a span
+ * @returns No headers for invalid (non-recording) span contexts
+ */
+export function traceContextHeaders(span: AuthSpan): Record<string, string> {
+  const { traceId, spanId, traceFlags, traceState } = span.spanContext();
+  if (!/^[0-9a-f]{32}$/.test(traceId) || /^0+$/.test(traceId) || !/^[0-9a-f]{16}$/.test(spanId) || /^0+$/.test(spanId)) {
+    return {};
+  }
+  const headers: Record<string, string> = {
+    traceparent: `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, '0')}`,
+  };
+  const state = traceState?.serialize();
+  if (state) {
+    headers.tracestate = state;
+  }
+  return headers;
+}
+
+/**
+ * Span recorded by InMemoryAuthTracer
+ */
+export interface RecordedAuthSpan {
+  name: string;
+  kind: number;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  attributes: AuthSpanAttributes;
+  status?: { code: number; message?: string };
+  exceptions: string[];
+}
+
+/**
+ * Records spans in memory, nested by async context, e.g. for tests without an OpenTelemetry SDK
+ */
+export class InMemoryAuthTracer implements AuthTracer {
+  /** Ended spans, in the order they ended */
+  readonly spans: RecordedAuthSpan[] = [];
+  private readonly active = new AsyncLocalStorage<RecordedAuthSpan>();
+
+  startActiveSpan<T>(
+    name: string,
+    options: { kind?: number; attributes?: AuthSpanAttributes },
+    fn: (span: AuthSpan) => T,
+  ): T {
+    const parent = this.active.getStore();
+    const recorded: RecordedAuthSpan = {
+      name,
+      kind: options.kind ?? SPAN_KIND_INTERNAL,
+      traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex'),
+      parentSpanId: parent?.spanId,
+      attributes: { ...options.attributes },
+      exceptions: [],
+    };
+    const span: AuthSpan = {
+      setAttributes: (attributes) => Object.assign(recorded.attributes, attributes),
+      setStatus: (status) => {
+        recorded.status = status;
+      },
+      recordException: (exception) => recorded.exceptions.push(exception instanceof Error ? exception.message : exception),
+      spanContext: () => ({ traceId: recorded.traceId, spanId: recorded.spanId, traceFlags: 1 }),
+      end: () => {
+        this.spans.push(recorded);
+      },
+    };
+    return this.active.run(recorded, () => fn(span));
+  }
+
+  clear(): void {
+    this.spans.length = 0;
+  }
+}
+
+/**
+ * Wraps guard activations and calls to the auth service in spans
+ * Uses tracing.tracer, or the global OpenTelemetry tracer when @opentelemetry/api
+ * is installed; a no-op otherwise
+ */
+@Injectable()
+export class AuthTracingService {
+  private readonly tracer?: AuthTracer;
+  private readonly propagate: boolean;
+
+  constructor(@Optional() @Inject(AUTH_MODULE_OPTIONS) options?: AuthModuleOptions) {
+    const { enabled, tracer, propagate } = resolveAuthOptions(options).tracing;
+    this.tracer = enabled ? tracer || loadOpenTelemetryTracer() : undefined;
+    this.propagate = propagate;
+  }
+
+  get enabled(): boolean {
+    return Boolean(this.tracer);
+  }
+
+  /**
+   * Run a guard activation in an auth.guard.<check> span
+   */
+  guard<T>(check: AuthAuditCheck, fn: () => Promise<T>): Promise<T> {
+    return this.inSpan(
+      `auth.guard.${check}`,
+      { kind: SPAN_KIND_INTERNAL, attributes: { 'auth.check': check } },
+      isGuardFailure,
+      (span) => (span ? guardSpans.run(span, fn) : fn()),
+    );
+  }
+
+  /**
+   * Run one HTTP call to the auth service in an auth.upstream.<endpoint> client span
+   * @param fn - Performs the call, sending the given trace context headers
+   */
+  upstream<T extends { status?: number }>(
+    endpoint: AuthUpstreamEndpoint,
+    url: string,
+    fn: (headers: Record<string, string>) => Promise<T>,
+  ): Promise<T> {
+    const attributes = { 'http.request.method': 'POST', 'url.full': url, 'auth.endpoint': endpoint };
+    return this.inSpan(`auth.upstream.${endpoint}`, { kind: SPAN_KIND_CLIENT, attributes }, () => true, async (span) => {
+      try {
+        const response = await fn(span && this.propagate ? traceContextHeaders(span) : {});
+        if (response.status) {
+          span?.setAttributes({ 'http.response.status_code': response.status });
+        }
+        return response;
+      } catch (error) {
+        const status = (error as Partial<AxiosError>)?.response?.status;
+        span?.setAttributes(status
+          ? { 'http.response.status_code': status, 'error.type': String(status) }
+          : { 'error.type': error instanceof Error ? error.name : 'Error' });
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Add a guard decision (user, org, requirements, source, outcome) to the running guard span
+   */
+  annotate(entry: AuthAuditEntry): void {
+    guardSpans.getStore()?.setAttributes(decisionAttributes(entry));
+  }
+
+  private inSpan<T>(
+    name: string,
+    options: { kind: number; attributes: AuthSpanAttributes },
+    isFailure: (error: unknown) => boolean,
+    fn: (span?: AuthSpan) => Promise<T>,
+  ): Promise<T> {
+    if (!this.tracer) {
+      return fn();
+    }
+    return this.tracer.startActiveSpan(name, options, async (span) => {
+      try {
+        return await fn(span);
+      } catch (error) {
+        if (isFailure(error)) {
+          span.recordException(error instanceof Error ? error : String(error));
+          span.setStatus({ code: STATUS_ERROR, message: error instanceof Error ? error.message : undefined });
+        }
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+}
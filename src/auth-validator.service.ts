@@ -1,73 +1,240 @@
 import { HttpService } from '@nestjs/axios';
-import { Injectable, Logger, ServiceUnavailableException, UnauthorizedException } from '@nestjs/common';
-import type { AxiosError } from 'axios';
-import { firstValueFrom } from 'rxjs';
-import { User } from './types';
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  Optional,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { AxiosError, AxiosResponse } from 'axios';
+import { performance } from 'perf_hooks';
+import { firstValueFrom, timeout } from 'rxjs';
+import { AUTH_CACHE_STORE, AUTH_MODULE_OPTIONS } from './auth.constants';
+import { ResolvedAuthOptions, resolveAuthOptions } from './auth.options';
+import {
+  apiKeyCacheKey,
+  credentialCacheKey,
+  decisionCacheKey,
+  LruAuthCacheStore,
+  TtlAuthCacheStore,
+  revokedJtiCacheKey,
+  revokedTokenCacheKey,
+  revokedUserCacheKey,
+  tokenCacheKey,
+} from './auth-cache.store';
+import { AuthServiceUnavailableException } from './auth.exceptions';
+import { AuthCallOperation, AuthMetricsRecorder, AuthUpstreamEndpoint } from './auth-metrics';
+import { AuthTracingService } from './auth-tracing';
+import { BatchLoader, mapWithConcurrency } from './batch-loader';
+import { JwtVerifierService } from './jwt-verifier.service';
+import { CircuitBreaker, CircuitOpenError, withRetry } from './resilience';
+import { fromIntrospection } from './scopes';
+import type {
+  AuthCacheStore,
+  AuthCheckOptions,
+  AuthDecisionSource,
+  AuthModuleOptions,
+  AuthorizationContext,
+  AuthStrategy,
+  CacheStats,
+  JwtClaims,
+  PermissionCheck,
+  RevocationEvent,
+  User,
+} from './types';
 
 // Re-export User type for convenience
 export type { User };
 
-// Simple in-memory cache for token introspection results
-// Keyed by access token; respects TTL unless NODE_ENV === 'development'
-const INTROSPECTION_TTL_MS = 30_000;
-const tokenCache = new Map<string, { user: User; expiresAt: number }>();
-
 function isDevEnv(): boolean {
   return (process.env.NODE_ENV || '').toLowerCase() === 'development';
 }
 
+// Network errors, timeouts and 5xx (except 501 Not Implemented) are transient upstream failures
+function isUpstreamFailure(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) {
+    return false;
+  }
+  const status = (error as Partial<AxiosError>)?.response?.status;
+  return !status || (status >= 500 && status !== 501);
+}
+
+// Cached value plus the time it stops being fresh; stale values are kept
+// for staleWhileError.graceMs and only served when the auth service fails
+interface CacheEntry<T> {
+  value: T;
+  freshUntil: number;
+  storedAt: number;
+}
+
+interface CacheLookup<T> {
+  value: T;
+  fresh: boolean;
+  freshUntil: number;
+  storedAt: number;
+}
+
+interface CachedDecision {
+  allowed: boolean;
+  // Token entry the decision was derived from; the decision dies with it
+  tokenKey: string;
+}
+
+interface QueuedPermissionCheck {
+  user: User;
+  check: Required<PermissionCheck>;
+  cacheKey: string;
+}
+
+interface VerifiedToken {
+  user: User;
+  // Token expiry (epoch seconds) when known from introspection or JWT claims
+  exp?: number;
+  source: AuthDecisionSource;
+}
+
 @Injectable()
-export class AuthValidatorService {
+export class AuthValidatorService implements OnModuleDestroy {
   private readonly logger = new Logger(AuthValidatorService.name);
+  private readonly options: ResolvedAuthOptions;
+  private readonly jwtVerifier: JwtVerifierService;
+  private readonly tracing: AuthTracingService;
+
+  // Cache for token validation results
+  // Keyed by token hash; respects TTL unless NODE_ENV === 'development'
+  private readonly cacheStore: AuthCacheStore;
+  // Revocation markers (revoked jti, revoked users); never shares the bounded in-memory LRU
+  private readonly revocationStore: AuthCacheStore;
+  private readonly decisionStats = { hits: 0, misses: 0 };
+  private readonly metrics: AuthMetricsRecorder;
 
-  constructor(private httpService: HttpService) { }
+  // Coalesces permission checks per access token within a tick
+  private readonly permissionBatchLoader = new BatchLoader<QueuedPermissionCheck, boolean | undefined>(
+    (items) => this.dispatchPermissionBatch(items),
+    (item) => item.user.accessToken,
+  );
+  private batchEndpointUnsupported = false;
+
+  /**
+   * Breaker shared by all core-service calls; subscribe to 'stateChange'
+   * to observe open/half-open/closed transitions
+   */
+  readonly circuitBreaker: CircuitBreaker;
+
+  private readonly unsubscribeRevocations: () => void;
+  private readonly revocationListeners = new Set<(event: RevocationEvent) => void>();
+
+  constructor(
+    private httpService: HttpService,
+    @Optional() @Inject(AUTH_MODULE_OPTIONS) options?: AuthModuleOptions,
+    @Optional() jwtVerifier?: JwtVerifierService,
+    @Optional() @Inject(AUTH_CACHE_STORE) cacheStore?: AuthCacheStore,
+    @Optional() tracing?: AuthTracingService,
+  ) {
+    this.options = resolveAuthOptions(options);
+    this.jwtVerifier = jwtVerifier || new JwtVerifierService(httpService, options);
+    this.tracing = tracing || new AuthTracingService(options);
+    this.cacheStore = cacheStore || options?.cacheStore || new LruAuthCacheStore(this.options.cacheMaxEntries);
+    this.revocationStore = this.options.revocation.store
+      || (this.cacheStore instanceof LruAuthCacheStore ? new TtlAuthCacheStore() : this.cacheStore);
+    this.metrics = new AuthMetricsRecorder(this.options.metrics);
+    this.circuitBreaker = new CircuitBreaker(
+      this.options.circuitBreaker.failureThreshold,
+      this.options.circuitBreaker.resetTimeoutMs,
+    );
+    this.unsubscribeRevocations = this.options.revocation.transport.subscribe(
+      (event) => this.applyRevocation(event),
+    );
+  }
+
+  onModuleDestroy(): void {
+    this.unsubscribeRevocations();
+  }
 
   /**
    * Validate JWT token and extract user information
-   * Caches successful results for 30s (disabled in dev)
+   * Uses introspection, local JWKS verification or both depending on verificationMode
+   * Caches successful results for cacheTtlMs (default 30s, capped at token exp, disabled in dev)
    * @param token - JWT token to validate
+   * @param options - { allowStale? } - set allowStale: false to fail closed during outages
    * @returns Promise<User> - User information from validated token
    */
-  async validateToken(token: string): Promise<User> {
-    // Check cache (unless in development)
-    if (!isDevEnv()) {
-      const cached = tokenCache.get(token);
-      if (cached && cached.expiresAt > Date.now()) {
+  async validateToken(token: string, options: AuthCheckOptions = {}): Promise<User> {
+    return this.measure('validateToken', async () => {
+      const cacheKey = tokenCacheKey(token);
+
+      // Check cache (unless in development)
+      const cached = await this.readTokenCache(cacheKey, 'jwt');
+      this.countTokenCacheLookup(cached);
+      if (cached?.fresh) {
         this.logger.debug('Using cached token introspection result');
-        return cached.user;
+        options.onSource?.('cache');
+        return cached.value;
       }
+
+      return this.withStaleFallback(cached, options, () => `token validation for user ${cached?.value.sub}`, async () => {
+        const { user, exp, source } = await this.verifyToken(token);
+        // Store in cache (unless in development), never beyond the token's own expiry
+        await this.writeCache(cacheKey, user, this.options.cacheTtlMs, exp);
+        options.onSource?.(source);
+        return user;
+      });
+    });
+  }
+
+  private async verifyToken(token: string): Promise<VerifiedToken> {
+    const mode = this.options.verificationMode;
+    if (mode === 'introspection') {
+      return this.introspect(token);
     }
 
-    try {
-      const introspectionUrl = process.env.TOKEN_INTROSPECTION_URL || 'http://core-service:3000/auth/introspect';
+    const decoded = this.jwtVerifier.decode(token);
+    if (!decoded) {
+      if (mode === 'hybrid') {
+        this.logger.debug('Opaque token, falling back to introspection');
+        return this.introspect(token);
+      }
+      this.logger.warn('Token is not a JWT');
+      throw new UnauthorizedException('Invalid token');
+    }
 
-      const response = await firstValueFrom(
-        this.httpService.post(introspectionUrl, { token }),
-      );
+    const claims = await this.jwtVerifier.verify(decoded);
+    if (await this.isDenyListed(claims, tokenCacheKey(token))) {
+      this.logger.warn(`Rejected revoked token of user ${claims.sub}`);
+      throw new UnauthorizedException('Invalid token');
+    }
+    if (!this.jwtVerifier.hasRequiredClaims(claims)) {
+      if (mode === 'hybrid') {
+        this.logger.debug('Token lacks required claims, falling back to introspection');
+        return this.introspect(token);
+      }
+      this.logger.warn('Token lacks required claims');
+      throw new UnauthorizedException('Invalid token');
+    }
+
+    return { user: this.jwtVerifier.toUser(claims, token), exp: claims.exp, source: 'local' };
+  }
+
+  private async introspect(token: string): Promise<VerifiedToken> {
+    try {
+      const response = await this.post('introspection', this.options.introspectionUrl, { token });
 
       if (!response.data?.active) {
         this.logger.warn('Token is not active');
         throw new UnauthorizedException('Invalid token');
       }
 
-      const user: User = {
-        sub: response.data.sub,
-        role: response.data.role,
-        permissions: response.data.permissions,
-        accessToken: token,
-      };
+      const user: User = { ...fromIntrospection(response.data), accessToken: token };
 
-      // Store in cache (unless in development)
-      if (!isDevEnv()) {
-        tokenCache.set(token, { user, expiresAt: Date.now() + INTROSPECTION_TTL_MS });
-      }
-
-      return user;
+      return { user, exp: user.exp, source: 'remote' };
     } catch (error) {
       // If we explicitly threw UnauthorizedException above (inactive token), rethrow as-is
       if (error instanceof UnauthorizedException) {
         throw error;
       }
+      this.rethrowIfCircuitOpen(error, 'Auth service unavailable');
 
       const axiosErr = error as Partial<AxiosError>;
       const status = axiosErr?.response?.status;
@@ -88,23 +255,230 @@ export class AuthValidatorService {
     }
   }
 
+  /**
+   * Validate an API key of a machine client
+   * Uses apiKey.verifier when configured, otherwise POSTs { key } to apiKey.verifyUrl;
+   * cached apart from access tokens; invalidateApiKey(key) revokes it
+   * @param key - API key
+   * @param options - { allowStale? } - set allowStale: false to fail closed during outages
+   * @returns Promise<User> - Principal of the key with authStrategy 'apiKey'
+   */
+  async validateApiKey(key: string, options: AuthCheckOptions = {}): Promise<User> {
+    return this.measure('validateApiKey', async () => {
+      const cacheKey = apiKeyCacheKey(key);
+
+      const cached = await this.readTokenCache(cacheKey, 'apiKey');
+      this.countTokenCacheLookup(cached);
+      if (cached?.fresh) {
+        this.logger.debug('Using cached API key validation result');
+        options.onSource?.('cache');
+        return cached.value;
+      }
+
+      return this.withStaleFallback(cached, options, () => `API key validation for ${cached?.value.sub}`, async () => {
+        const user = await this.verifyApiKey(key);
+        await this.writeCache(cacheKey, user, this.options.cacheTtlMs);
+        options.onSource?.(this.options.apiKey.verifier ? 'local' : 'remote');
+        return user;
+      });
+    });
+  }
+
+  private async verifyApiKey(key: string): Promise<User> {
+    const { verifier, verifyUrl } = this.options.apiKey;
+    if (verifier) {
+      const principal = await verifier.verify(key);
+      if (!principal) {
+        this.logger.warn('Unknown API key');
+        throw new UnauthorizedException('Invalid API key');
+      }
+      return { ...principal, accessToken: key, authStrategy: 'apiKey' };
+    }
+
+    try {
+      const response = await this.post('apiKey', verifyUrl, { key });
+
+      if (!response.data?.active) {
+        this.logger.warn('API key is not active');
+        throw new UnauthorizedException('Invalid API key');
+      }
+
+      return { ...fromIntrospection(response.data), accessToken: key, authStrategy: 'apiKey' };
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        throw error;
+      }
+      this.rethrowIfCircuitOpen(error, 'Auth service unavailable');
+
+      const axiosErr = error as Partial<AxiosError>;
+      const status = axiosErr?.response?.status;
+
+      this.logger.error('Error verifying API key', {
+        error: axiosErr?.message || (error instanceof Error ? error.message : 'Unknown error'),
+        status,
+      });
+
+      if (!status || status >= 500) {
+        throw new ServiceUnavailableException('Auth service unavailable');
+      }
+      throw new UnauthorizedException('Access denied - API key verification failed');
+    }
+  }
+
   /**
    * Check user permission via core-service with context
    * @param user - User information
    * @param permissions - Required permission(s)
    * @param match - any | all (default: all)
    * @param context - { orgId, workspaceId?, objectId? }
+   * @param options - { allowStale? } - set allowStale: false to fail closed during outages
    * @returns Promise<boolean> - Whether user has required permissions per match mode
    */
   async checkPermission(
     user: User,
     permissions: string[],
     match: 'any' | 'all' = 'all',
-    context: { orgId: string; workspaceId?: string; objectId?: string; objectType?: string },
+    context: AuthorizationContext,
+    options: AuthCheckOptions = {},
   ): Promise<boolean> {
+    return this.measure('checkPermission', async () => {
+      const cacheKey = decisionCacheKey('permission', user.sub, permissions, match, context);
+      const cached = await this.getCachedDecision(cacheKey);
+      if (cached?.fresh) {
+        options.onSource?.('cache');
+        return cached.value;
+      }
+
+      return this.withStaleFallback(cached, options, () => `permission decision for user ${user.sub}`, async () => {
+        const hasPermission = await this.requestPermission(user, permissions, match, context);
+        if (hasPermission !== undefined) {
+          await this.cacheDecision(cacheKey, user, hasPermission);
+        }
+        options.onSource?.('remote');
+        return Boolean(hasPermission);
+      });
+    });
+  }
+
+  /**
+   * Check many (permissions, match, context) tuples for one user
+   * Checks issued in the same tick are coalesced into a single request to
+   * permissionBatchCheckUrl; without a batch endpoint they are sent as
+   * parallel single checks limited to batchConcurrency
+   * @param user - User information
+   * @param checks - Permission checks to evaluate
+   * @param options - { allowStale?, onSource? } - set allowStale: false to fail closed during outages
+   * @returns Promise<boolean[]> - One result per check, in order
+   */
+  async checkPermissionsBatch(user: User, checks: PermissionCheck[], options: AuthCheckOptions = {}): Promise<boolean[]> {
+    return Promise.all(checks.map((check) => this.measure('checkPermission', async () => {
+      const match = check.match || 'all';
+      const cacheKey = decisionCacheKey('permission', user.sub, check.permissions, match, check.context);
+      const cached = await this.getCachedDecision(cacheKey);
+      if (cached?.fresh) {
+        options.onSource?.('cache');
+        return cached.value;
+      }
+      return this.withStaleFallback(
+        cached,
+        options,
+        () => `permission decision for user ${user.sub}`,
+        async () => {
+          const hasPermission = await this.permissionBatchLoader.load({ user, check: { ...check, match }, cacheKey });
+          options.onSource?.('remote');
+          return Boolean(hasPermission);
+        },
+      );
+    })));
+  }
+
+  /**
+   * @returns Decisions in order; undefined for checks that failed with a 4xx, which are not cached
+   */
+  private async dispatchPermissionBatch(items: QueuedPermissionCheck[]): Promise<Array<boolean | undefined>> {
+    const results = this.options.permissionBatchCheckUrl && !this.batchEndpointUnsupported
+      ? await this.requestPermissionBatch(items)
+      : undefined;
+
+    if (results) {
+      await Promise.all(items.map((item, i) => {
+        const hasPermission = results[i];
+        return hasPermission === undefined ? undefined : this.cacheDecision(item.cacheKey, item.user, hasPermission);
+      }));
+      return results;
+    }
+
+    // No batch endpoint: fall back to single checks with bounded concurrency
+    return mapWithConcurrency(items, this.options.batchConcurrency, async ({ user, check, cacheKey }) => {
+      const hasPermission = await this.requestPermission(user, check.permissions, check.match, check.context);
+      if (hasPermission !== undefined) {
+        await this.cacheDecision(cacheKey, user, hasPermission);
+      }
+      return hasPermission;
+    });
+  }
+
+  /**
+   * POST a batch of permission checks (all for the same token)
+   * @returns Results in order (undefined per item when the batch failed with a 4xx or
+   * returned no result for it), or undefined when the server has no batch endpoint
+   */
+  private async requestPermissionBatch(items: QueuedPermissionCheck[]): Promise<Array<boolean | undefined> | undefined> {
+    const { user } = items[0];
     try {
-      const permissionCheckUrl = process.env.PERMISSION_CHECK_URL || 'http://core-service:3000/auth/check-permission';
+      const response = await this.post('permissionBatch', this.options.permissionBatchCheckUrl, {
+        userId: user.sub,
+        checks: items.map(({ check }) => ({
+          orgId: check.context.orgId,
+          workspaceId: check.context.workspaceId,
+          objectType: check.context.objectType,
+          objectId: check.context.objectId,
+          permissions: check.permissions,
+          match: check.match,
+        })),
+      }, user.accessToken);
 
+      const results: Array<{ hasPermission?: boolean }> = response.data?.results || [];
+      if (results.length < items.length) {
+        this.logger.warn(`Permission batch returned ${results.length} result(s) for ${items.length} check(s)`);
+      }
+      // Checks without a result are denied but not cached
+      return items.map((_item, i) => (results[i] ? Boolean(results[i].hasPermission) : undefined));
+    } catch (error) {
+      this.rethrowIfCircuitOpen(error, 'Authorization service unavailable');
+      const axiosErr = error as Partial<AxiosError>;
+      const status = axiosErr?.response?.status;
+      if (status === 404 || status === 405 || status === 501) {
+        this.logger.warn(`Batch permission endpoint not supported (status=${status}), using single checks`);
+        this.batchEndpointUnsupported = true;
+        return undefined;
+      }
+
+      const message = axiosErr?.message || (error instanceof Error ? error.message : 'Unknown error');
+      this.logger.error(`Error checking permission batch for user ${user.sub}`, {
+        error: message,
+        status,
+        checks: items.length,
+      });
+      // Per requirements: if core-service is unavailable -> 503
+      if (!status || status >= 500) {
+        throw new ServiceUnavailableException('Authorization service unavailable');
+      }
+      // Other statuses (e.g., 4xx) are interpreted by the guard (will return 403), but are not decisions to cache
+      return items.map(() => undefined);
+    }
+  }
+
+  /**
+   * @returns Decision from core-service, or undefined when the check failed with a 4xx
+   */
+  private async requestPermission(
+    user: User,
+    permissions: string[],
+    match: 'any' | 'all',
+    context: AuthorizationContext,
+  ): Promise<boolean | undefined> {
+    try {
       const permissionCheckData = {
         userId: user.sub,
         orgId: context.orgId,
@@ -115,16 +489,11 @@ export class AuthValidatorService {
         match,
       };
 
-      const response = await firstValueFrom(
-        this.httpService.post(permissionCheckUrl, permissionCheckData, {
-          headers: {
-            Authorization: `Bearer ${user.accessToken}`,
-          },
-        }),
-      );
+      const response = await this.post('permission', this.options.permissionCheckUrl, permissionCheckData, user.accessToken);
 
       return Boolean(response.data?.hasPermission);
     } catch (error) {
+      this.rethrowIfCircuitOpen(error, 'Authorization service unavailable');
       const axiosErr = error as Partial<AxiosError>;
       const status = axiosErr?.response?.status;
       const message = axiosErr?.message || (error instanceof Error ? error.message : 'Unknown error');
@@ -140,7 +509,7 @@ export class AuthValidatorService {
         throw new ServiceUnavailableException('Authorization service unavailable');
       }
       // Other statuses (e.g., 4xx) are interpreted by the guard (will return 403)
-      return false;
+      return undefined;
     }
   }
 
@@ -150,17 +519,45 @@ export class AuthValidatorService {
    * @param roles - Required role(s)
    * @param match - any | all (default: all)
    * @param context - { orgId, workspaceId?, objectId? }
+   * @param options - { allowStale? } - set allowStale: false to fail closed during outages
    * @returns Promise<boolean> - Whether user has required roles per match mode
    */
   async checkRole(
     user: User,
     roles: string[],
     match: 'any' | 'all' = 'all',
-    context: { orgId: string; workspaceId?: string; objectId?: string; objectType?: string },
+    context: AuthorizationContext,
+    options: AuthCheckOptions = {},
   ): Promise<boolean> {
-    try {
-      const roleCheckUrl = process.env.ROLE_CHECK_URL || 'http://core-service:3000/auth/check-role';
+    return this.measure('checkRole', async () => {
+      const cacheKey = decisionCacheKey('role', user.sub, roles, match, context);
+      const cached = await this.getCachedDecision(cacheKey);
+      if (cached?.fresh) {
+        options.onSource?.('cache');
+        return cached.value;
+      }
 
+      return this.withStaleFallback(cached, options, () => `role decision for user ${user.sub}`, async () => {
+        const hasRole = await this.requestRole(user, roles, match, context);
+        if (hasRole !== undefined) {
+          await this.cacheDecision(cacheKey, user, hasRole);
+        }
+        options.onSource?.('remote');
+        return Boolean(hasRole);
+      });
+    });
+  }
+
+  /**
+   * @returns Decision from core-service, or undefined when the check failed with a 4xx
+   */
+  private async requestRole(
+    user: User,
+    roles: string[],
+    match: 'any' | 'all',
+    context: AuthorizationContext,
+  ): Promise<boolean | undefined> {
+    try {
       const roleCheckData = {
         userId: user.sub,
         orgId: context.orgId,
@@ -171,16 +568,11 @@ export class AuthValidatorService {
         match,
       };
 
-      const response = await firstValueFrom(
-        this.httpService.post(roleCheckUrl, roleCheckData, {
-          headers: {
-            Authorization: `Bearer ${user.accessToken}`,
-          },
-        }),
-      );
+      const response = await this.post('role', this.options.roleCheckUrl, roleCheckData, user.accessToken);
 
       return Boolean(response.data?.hasRole);
     } catch (error) {
+      this.rethrowIfCircuitOpen(error, 'Authorization service unavailable');
       const axiosErr = error as Partial<AxiosError>;
       const status = axiosErr?.response?.status;
       const message = axiosErr?.message || (error instanceof Error ? error.message : 'Unknown error');
@@ -196,7 +588,296 @@ export class AuthValidatorService {
         throw new ServiceUnavailableException('Authorization service unavailable');
       }
       // Other statuses (e.g., 4xx) are interpreted by the guard (will return 403)
+      return undefined;
+    }
+  }
+
+  /**
+   * Revoke a single token: drop its cached validation and decisions on every
+   * instance and deny-list it (by jti when it has one) until exp under local verification
+   * @param token - Access token to revoke (e.g. on logout)
+   */
+  async invalidateToken(token: string): Promise<void> {
+    const claims = this.jwtVerifier.decode(token)?.claims;
+    await this.revoke({
+      type: 'token',
+      tokenKey: tokenCacheKey(token),
+      jti: typeof claims?.jti === 'string' ? claims.jti : undefined,
+      exp: typeof claims?.exp === 'number' ? claims.exp : undefined,
+    });
+  }
+
+  /**
+   * Revoke an API key: drop its cached validation and decisions on every instance
+   * @param key - API key to revoke
+   */
+  async invalidateApiKey(key: string): Promise<void> {
+    await this.revoke({ type: 'token', tokenKey: apiKeyCacheKey(key) });
+  }
+
+  /**
+   * Revoke every token of a user issued so far: cached validations and
+   * decisions are dropped on every instance, and locally verified JWTs issued
+   * before now are rejected
+   * @param sub - User ID
+   */
+  async invalidateUser(sub: string): Promise<void> {
+    await this.revoke({ type: 'user', sub, revokedAt: Date.now() });
+  }
+
+  /**
+   * Hit ratio of the permission/role decision cache
+   */
+  getDecisionCacheStats(): CacheStats {
+    const { hits, misses } = this.decisionStats;
+    const total = hits + misses;
+    return { hits, misses, hitRatio: total ? hits / total : 0 };
+  }
+
+  /**
+   * Listen to revocations applied on this instance: invalidateToken()/invalidateUser()
+   * calls and events received through revocation.transport (a revocation may be seen twice)
+   * @returns Function removing the listener
+   */
+  onRevocation(listener: (event: RevocationEvent) => void): () => void {
+    this.revocationListeners.add(listener);
+    return () => this.revocationListeners.delete(listener);
+  }
+
+  private async revoke(event: RevocationEvent): Promise<void> {
+    await this.applyRevocation(event);
+    await this.options.revocation.transport.publish(event);
+  }
+
+  /**
+   * Apply a revocation from this or another instance; idempotent
+   */
+  private async applyRevocation(event: RevocationEvent): Promise<void> {
+    try {
+      if (event.type === 'token') {
+        await this.cacheStore.delete(event.tokenKey);
+        const ttlMs = event.exp ? event.exp * 1000 - Date.now() : this.options.revocation.denyListTtlMs;
+        if (ttlMs > 0) {
+          const key = event.jti ? revokedJtiCacheKey(event.jti) : revokedTokenCacheKey(event.tokenKey);
+          await this.revocationStore.set(key, true, ttlMs);
+        }
+        this.logger.debug('Revoked token');
+        this.notifyRevocation(event);
+        return;
+      }
+
+      // Keep the marker as long as a cached entry or a deny-listed JWT may live
+      const key = revokedUserCacheKey(event.sub);
+      const previous = (await this.revocationStore.get<number>(key)) ?? 0;
+      const ttlMs = Math.max(
+        this.options.revocation.denyListTtlMs,
+        this.options.cacheTtlMs + this.options.staleWhileError.graceMs,
+      );
+      await this.revocationStore.set(key, Math.max(previous, event.revokedAt), ttlMs);
+      this.logger.debug(`Revoked tokens of user ${event.sub}`);
+      this.notifyRevocation(event);
+    } catch (error) {
+      this.logger.error('Failed to apply revocation', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        type: event.type,
+      });
+    }
+  }
+
+  private notifyRevocation(event: RevocationEvent): void {
+    for (const listener of this.revocationListeners) {
+      listener(event);
+    }
+  }
+
+  /**
+   * Whether a locally verified JWT was revoked by jti or, without one, by token,
+   * or issued before its user was revoked
+   */
+  private async isDenyListed(claims: JwtClaims, tokenKey: string): Promise<boolean> {
+    const key = typeof claims.jti === 'string' ? revokedJtiCacheKey(claims.jti) : revokedTokenCacheKey(tokenKey);
+    if (await this.revocationStore.get(key)) {
+      return true;
+    }
+    if (!claims.sub) {
       return false;
     }
+    const revokedAt = await this.revocationStore.get<number>(revokedUserCacheKey(claims.sub));
+    return revokedAt !== undefined && (typeof claims.iat !== 'number' || claims.iat * 1000 <= revokedAt);
+  }
+
+  private async getCachedDecision(cacheKey: string): Promise<CacheLookup<boolean> | undefined> {
+    const cached = await this.readCache<CachedDecision>(cacheKey);
+    // A decision is only valid while the token entry it came from is still cached
+    if (cached && (await this.readTokenCache(cached.value.tokenKey))) {
+      this.countDecisionCacheLookup(cached.fresh);
+      if (cached.fresh) {
+        this.logger.debug(`Using cached authorization decision (hit ratio ${this.getDecisionCacheStats().hitRatio.toFixed(2)})`);
+      }
+      return { ...cached, value: cached.value.allowed };
+    }
+    if (cached) {
+      await this.cacheStore.delete(cacheKey);
+    }
+
+    if (!isDevEnv()) {
+      this.countDecisionCacheLookup(false);
+    }
+    return undefined;
+  }
+
+  private countDecisionCacheLookup(hit: boolean): void {
+    this.decisionStats[hit ? 'hits' : 'misses']++;
+    this.metrics.cacheLookup('decision', hit);
+  }
+
+  // Caching is disabled in development, so there is nothing to count
+  private countTokenCacheLookup(cached: CacheLookup<User> | undefined): void {
+    if (!isDevEnv()) {
+      this.metrics.cacheLookup('token', Boolean(cached?.fresh));
+    }
+  }
+
+  private async cacheDecision(cacheKey: string, user: User, allowed: boolean): Promise<void> {
+    const { allowTtlMs, denyTtlMs } = this.options.decisionCache;
+    await this.writeCache<CachedDecision>(
+      cacheKey,
+      { allowed, tokenKey: credentialCacheKey(user) },
+      allowed ? allowTtlMs : denyTtlMs,
+    );
+  }
+
+  private async readCache<T>(key: string): Promise<CacheLookup<T> | undefined> {
+    if (isDevEnv()) {
+      return undefined;
+    }
+    const entry = await this.cacheStore.get<CacheEntry<T>>(key);
+    if (!entry) {
+      return undefined;
+    }
+    return {
+      value: entry.value,
+      fresh: entry.freshUntil > Date.now(),
+      freshUntil: entry.freshUntil,
+      storedAt: entry.storedAt ?? 0,
+    };
   }
-}
\ No newline at end of file
+
+  /**
+   * Cached token validation, unless the user was revoked after it was cached
+   * @param strategy - Credential being validated; principals of another strategy are ignored
+   */
+  private async readTokenCache(key: string, strategy?: AuthStrategy): Promise<CacheLookup<User> | undefined> {
+    const cached = await this.readCache<User>(key);
+    if (!cached || (strategy && (cached.value.authStrategy ?? 'jwt') !== strategy)) {
+      return undefined;
+    }
+    const revokedAt = await this.revocationStore.get<number>(revokedUserCacheKey(cached.value.sub));
+    if (revokedAt !== undefined && cached.storedAt <= revokedAt) {
+      await this.cacheStore.delete(key);
+      return undefined;
+    }
+    return cached;
+  }
+
+  /**
+   * Store value for ttlMs (plus the stale grace window when enabled),
+   * never beyond exp (epoch seconds) when given
+   */
+  private async writeCache<T>(key: string, value: T, ttlMs: number, exp?: number): Promise<void> {
+    if (isDevEnv() || ttlMs <= 0) {
+      return;
+    }
+    const now = Date.now();
+    const { enabled, graceMs } = this.options.staleWhileError;
+    const maxTtlMs = exp ? exp * 1000 - now : Infinity;
+    const freshTtlMs = Math.min(ttlMs, maxTtlMs);
+    const storeTtlMs = Math.min(enabled ? ttlMs + graceMs : ttlMs, maxTtlMs);
+    if (freshTtlMs <= 0) {
+      return;
+    }
+    await this.cacheStore.set<CacheEntry<T>>(key, { value, freshUntil: now + freshTtlMs, storedAt: now }, storeTtlMs);
+  }
+
+  /**
+   * Run fn; if it fails because the auth service is unavailable, serve the
+   * stale cached value instead (when staleWhileError is enabled and the
+   * caller did not opt out)
+   */
+  private async withStaleFallback<T>(
+    stale: CacheLookup<T> | undefined,
+    options: AuthCheckOptions,
+    describe: () => string,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      const allowStale = this.options.staleWhileError.enabled && options.allowStale !== false;
+      if (!stale || !allowStale || !(error instanceof ServiceUnavailableException)) {
+        throw error;
+      }
+      this.logger.warn(`STALE: serving cached ${describe()} after auth service failure`, {
+        staleForMs: Date.now() - stale.freshUntil,
+        error: error.message,
+      });
+      options.onSource?.('cache');
+      return stale.value;
+    }
+  }
+
+  /**
+   * Count a call by outcome: allowed results and valid credentials, denials
+   * (false or UnauthorizedException) and errors such as 503
+   */
+  private async measure<T>(operation: AuthCallOperation, fn: () => Promise<T>): Promise<T> {
+    try {
+      const result = await fn();
+      this.metrics.call(operation, result === false ? 'deny' : 'allow');
+      return result;
+    } catch (error) {
+      this.metrics.call(operation, error instanceof UnauthorizedException ? 'deny' : 'error');
+      throw error;
+    }
+  }
+
+  /**
+   * POST to core-service with per-call timeout, jittered retries of transient
+   * failures and the shared circuit breaker; every attempt is timed per endpoint
+   * and traced in a client span whose trace context is sent along
+   */
+  private post(endpoint: AuthUpstreamEndpoint, url: string, data: unknown, accessToken?: string): Promise<AxiosResponse> {
+    const { httpTimeoutMs, retry } = this.options;
+    const request = () => this.tracing.upstream(endpoint, url, async (traceHeaders) => {
+      const headers = { ...traceHeaders, ...(accessToken && { Authorization: `Bearer ${accessToken}` }) };
+      const startedAt = performance.now();
+      const elapsed = () => (performance.now() - startedAt) / 1000;
+      try {
+        const response = await firstValueFrom(
+          this.httpService.post(url, data, {
+            timeout: httpTimeoutMs,
+            ...(Object.keys(headers).length > 0 && { headers }),
+          }).pipe(timeout(httpTimeoutMs)),
+        );
+        this.metrics.upstream(endpoint, response.status, elapsed());
+        return response;
+      } catch (error) {
+        this.metrics.upstream(endpoint, (error as Partial<AxiosError>)?.response?.status, elapsed());
+        throw error;
+      }
+    });
+    const attempt = () => this.circuitBreaker.execute(
+      request,
+      isUpstreamFailure,
+    );
+
+    return withRetry(attempt, { ...retry, shouldRetry: isUpstreamFailure });
+  }
+
+  private rethrowIfCircuitOpen(error: unknown, message: string): void {
+    if (error instanceof CircuitOpenError) {
+      this.logger.debug(`${message} - circuit breaker open`);
+      throw new AuthServiceUnavailableException(message, Math.ceil(error.retryAfterMs / 1000));
+    }
+  }
+}
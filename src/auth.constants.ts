@@ -0,0 +1,61 @@
+/**
+ * Injection token for the options object passed to AuthModule.forRoot/forRootAsync
+ */
+export const AUTH_MODULE_OPTIONS = 'AUTH_MODULE_OPTIONS';
+
+/**
+ * Injection token for the AuthCacheStore holding introspection results
+ */
+export const AUTH_CACHE_STORE = 'AUTH_CACHE_STORE';
+
+/**
+ * Metadata key set by @FailClosed()
+ */
+export const FAIL_CLOSED_KEY = 'failClosed';
+
+/**
+ * Metadata key set by @Public() (and cleared by @Auth())
+ */
+export const IS_PUBLIC_KEY = 'isPublic';
+
+/**
+ * Metadata key set by @OptionalAuth()
+ */
+export const OPTIONAL_AUTH_KEY = 'optionalAuth';
+
+/**
+ * Metadata key set by @Auth({ strategies })
+ */
+export const AUTH_STRATEGIES_KEY = 'authStrategies';
+
+/**
+ * Metadata keys set by @RequirePermissions(), @RequireRoles(), @RequireScopes() and @Authorize()
+ */
+export const PERMISSIONS_KEY = 'permissions';
+export const PERMISSIONS_MATCH_KEY = 'permissionsMatch';
+export const ROLES_KEY = 'roles';
+export const ROLES_MATCH_KEY = 'rolesMatch';
+export const SCOPES_KEY = 'scopes';
+export const SCOPES_MATCH_KEY = 'scopesMatch';
+export const AUTHORIZE_KEY = 'authorize';
+
+/**
+ * Metadata key set by @AuthzContext()
+ */
+export const AUTHZ_CONTEXT_KEY = 'authzContext';
+
+/**
+ * Metadata key set by @Policy()
+ */
+export const POLICY_KEY = 'policy';
+
+/**
+ * Metadata key set by @RequireOwnership()
+ */
+export const OWNERSHIP_KEY = 'ownership';
+
+/**
+ * Payload field carrying auth headers (authorization, x-org-id, ...) of RPC messages
+ * sent through AuthClientProxy
+ */
+export const RPC_AUTH_FIELD = '$auth';
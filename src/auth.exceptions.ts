@@ -0,0 +1,33 @@
+import { ExecutionContext, ServiceUnavailableException } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { getRequest } from './execution-context';
+
+/**
+ * 503 raised while the auth service circuit breaker is open.
+ * Guards copy retryAfterSeconds into a Retry-After response header.
+ */
+export class AuthServiceUnavailableException extends ServiceUnavailableException {
+  constructor(message: string, readonly retryAfterSeconds: number) {
+    super(message);
+  }
+}
+
+/**
+ * Set Retry-After on the HTTP response when the error carries a retry hint
+ * (for GraphQL the response of the underlying HTTP request)
+ */
+export function applyRetryAfter(context: ExecutionContext, error: unknown): void {
+  if (!(error instanceof AuthServiceUnavailableException)) {
+    return;
+  }
+  const type = context.getType<string>();
+  if (type !== 'http' && type !== 'graphql') {
+    return;
+  }
+  const response = type === 'http'
+    ? context.switchToHttp().getResponse<Response>()
+    : getRequest<Request | undefined>(context)?.res;
+  if (response && typeof response.setHeader === 'function' && !response.headersSent) {
+    response.setHeader('Retry-After', String(error.retryAfterSeconds));
+  }
+}
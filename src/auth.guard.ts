@@ -1,53 +1,172 @@
 import {
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
+  Inject,
   Injectable,
   Logger,
+  Optional,
   ServiceUnavailableException,
   UnauthorizedException,
 } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { Request } from 'express';
+import { performance } from 'perf_hooks';
+import { AUTH_MODULE_OPTIONS, AUTH_STRATEGIES_KEY, FAIL_CLOSED_KEY, IS_PUBLIC_KEY, OPTIONAL_AUTH_KEY } from './auth.constants';
+import { ResolvedAuthOptions, resolveAuthOptions } from './auth.options';
+import { getRequest, isAuthenticated, markAuthenticated } from './execution-context';
+import { applyRetryAfter } from './auth.exceptions';
+import { registerContextOptions } from './authorization-context';
 import { AuthValidatorService } from './auth-validator.service';
+import { AuthAuditEntry, AuthAuditService, DecisionSourceTracker } from './auth-audit';
+import { AuthTracingService } from './auth-tracing';
+import { verifyCsrf } from './csrf';
 import { TokenExtractorService } from './token-extractor.service';
-import { User } from './types';
+import type { AuthModuleOptions, AuthStrategy, TokenSource, User } from './types';
+
+interface Credential {
+  strategy: AuthStrategy;
+  token: string;
+  source: TokenSource;
+}
 
 @Injectable()
 export class AuthGuard implements CanActivate {
   private readonly logger = new Logger(AuthGuard.name);
+  private readonly options: ResolvedAuthOptions;
 
   constructor(
     private tokenExtractor: TokenExtractorService,
     private authValidator: AuthValidatorService,
-  ) { }
+    private reflector: Reflector,
+    @Optional() @Inject(AUTH_MODULE_OPTIONS) options?: AuthModuleOptions,
+    @Optional() private audit?: AuthAuditService,
+    @Optional() private tracing?: AuthTracingService,
+  ) {
+    this.options = resolveAuthOptions(options);
+  }
+
+  canActivate(context: ExecutionContext): Promise<boolean> {
+    return this.tracing ? this.tracing.guard('authentication', () => this.authenticate(context)) : this.authenticate(context);
+  }
 
-  async canActivate(context: ExecutionContext): Promise<boolean> {
-    const request = context.switchToHttp().getRequest<Request>();
+  private async authenticate(context: ExecutionContext): Promise<boolean> {
+    const startedAt = performance.now();
+    const record = (entry: Omit<AuthAuditEntry, 'check' | 'startedAt'>) =>
+      this.audit?.record(context, { check: 'authentication', startedAt, ...entry });
+
+    const targets = [context.getHandler(), context.getClass()];
+    registerContextOptions(context, this.options);
+    if (this.isPublic(context)) {
+      record({ outcome: 'allow', reason: 'public' });
+      return true;
+    }
+    const optional = this.reflector.getAllAndOverride<boolean>(OPTIONAL_AUTH_KEY, targets);
 
-    // Extract token from request
-    const token = this.tokenExtractor.extractToken(request);
+    const request = getRequest<Request>(context);
+    const strategies = this.getStrategies(context);
 
-    if (!token) {
+    // Already authenticated by an earlier guard (e.g. global guard plus @Auth()) with an accepted credential
+    if (isAuthenticated(request.user) && strategies.includes(request.user.authStrategy ?? 'jwt')) {
+      return true;
+    }
+
+    // Extract the first credential of the accepted strategies
+    const credential = this.extractCredential(request, strategies);
+
+    if (!credential) {
+      if (optional) {
+        record({ outcome: 'allow', reason: 'anonymous' });
+        return true;
+      }
+      record({ outcome: 'deny', reason: 'missing_credentials' });
       this.logger.warn('Access token not found in request');
       throw new UnauthorizedException('Access denied - No authentication token provided');
     }
 
+    const { strategy, token, source } = credential;
+    request.authTokenSource = source;
+
+    // Cookies are sent cross-site by browsers, so cookie auth needs CSRF defense,
+    // for GraphQL operations over HTTP too (no method means a subscription, which counts as safe)
+    if (['http', 'graphql'].includes(context.getType<string>())) {
+      const csrfFailure = verifyCsrf(request, source, this.options.csrf);
+      if (csrfFailure) {
+        record({ outcome: 'deny', reason: 'csrf_failed', detail: csrfFailure, credential: token });
+        this.logger.warn(`CSRF check failed: ${csrfFailure}`);
+        throw new ForbiddenException('Access denied - CSRF validation failed');
+      }
+    }
+
+    const tracker = new DecisionSourceTracker();
     try {
       // Validate token and get user info
-      const user: User = await this.authValidator.validateToken(token);
+      const failClosed = this.reflector.getAllAndOverride<boolean>(FAIL_CLOSED_KEY, targets);
+      const checkOptions = { allowStale: !failClosed, onSource: tracker.onSource };
+      const user: User = strategy === 'apiKey'
+        ? await this.authValidator.validateApiKey(token, checkOptions)
+        : await this.authValidator.validateToken(token, checkOptions);
 
       // Add user info to request
-      request.user = user;
+      request.user = markAuthenticated(user);
 
+      record({ outcome: 'allow', reason: 'authenticated', user, source: tracker.source, credential: token });
       return true;
     } catch (error) {
       if (error instanceof ServiceUnavailableException) {
+        record({ outcome: 'error', reason: 'service_unavailable', source: tracker.source, credential: token });
         // Bubble up 503 when core-service (auth) is unavailable
+        applyRetryAfter(context, error);
         throw error;
       }
+      if (optional) {
+        // Anonymous access is allowed; an invalid token just isn't used
+        record({ outcome: 'allow', reason: 'anonymous', detail: 'invalid credentials ignored', credential: token });
+        this.logger.debug('Ignoring invalid token on optional auth route');
+        return true;
+      }
+      record({ outcome: 'deny', reason: 'invalid_credentials', source: tracker.source, credential: token });
       this.logger.error('Token validation failed', {
         error: error instanceof Error ? error.message : 'Unknown error',
       });
       throw new UnauthorizedException('Access denied - Token verification failed');
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Whether the route skips authentication, set with @Public()
+   */
+  protected isPublic(context: ExecutionContext): boolean {
+    return Boolean(this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]));
+  }
+
+  /**
+   * Credentials accepted on this route, set with @Auth({ strategies })
+   */
+  protected getStrategies(context: ExecutionContext): AuthStrategy[] {
+    return this.reflector.getAllAndOverride<AuthStrategy[]>(AUTH_STRATEGIES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]) || ['jwt'];
+  }
+
+  private extractCredential(request: Request, strategies: AuthStrategy[]): Credential | undefined {
+    for (const strategy of strategies) {
+      if (strategy === 'apiKey') {
+        const key = request.headers?.[this.options.apiKey.header];
+        if (typeof key === 'string' && key.trim()) {
+          return { strategy, token: key.trim(), source: 'api-key' };
+        }
+        continue;
+      }
+      const extracted = this.tokenExtractor.extractTokenWithSource(request);
+      if (extracted) {
+        return { strategy, ...extracted };
+      }
+    }
+    return undefined;
+  }
+}
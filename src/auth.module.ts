@@ -0,0 +1,123 @@
+import { HttpModule } from '@nestjs/axios';
+import { DynamicModule, Module, Provider } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { AUTH_CACHE_STORE, AUTH_MODULE_OPTIONS } from './auth.constants';
+import { resolveAuthOptions } from './auth.options';
+import { LruAuthCacheStore } from './auth-cache.store';
+import { ApiKeyGuard } from './api-key.guard';
+import { AuthAuditService } from './auth-audit';
+import { AuthTracingService } from './auth-tracing';
+import { AuthGuard } from './auth.guard';
+import { AuthPropagationInterceptor } from './auth-propagation.interceptor';
+import { AuthValidatorService } from './auth-validator.service';
+import { AuthorizeGuard } from './authorize.guard';
+import { JwtVerifierService } from './jwt-verifier.service';
+import { OwnershipGuard } from './ownership.guard';
+import { PermissionGuard } from './permission.guard';
+import { PolicyRegistry } from './policy';
+import { PolicyGuard } from './policy.guard';
+import { RoleGuard } from './role.guard';
+import { ScopeGuard } from './scope.guard';
+import { TokenExtractorService } from './token-extractor.service';
+import { WsAuthService } from './ws-auth.service';
+import { AuthModuleAsyncOptions, AuthModuleOptions } from './types';
+
+const AUTH_PROVIDERS: Provider[] = [
+  {
+    provide: AUTH_CACHE_STORE,
+    useFactory: (options: AuthModuleOptions) =>
+      options.cacheStore || new LruAuthCacheStore(resolveAuthOptions(options).cacheMaxEntries),
+    inject: [AUTH_MODULE_OPTIONS],
+  },
+  AuthValidatorService,
+  AuthAuditService,
+  AuthTracingService,
+  JwtVerifierService,
+  TokenExtractorService,
+  WsAuthService,
+  PolicyRegistry,
+  AuthGuard,
+  ApiKeyGuard,
+  PermissionGuard,
+  RoleGuard,
+  ScopeGuard,
+  AuthorizeGuard,
+  PolicyGuard,
+  OwnershipGuard,
+  AuthPropagationInterceptor,
+];
+
+const AUTH_EXPORTS = [
+  AUTH_MODULE_OPTIONS,
+  AUTH_CACHE_STORE,
+  AuthValidatorService,
+  AuthAuditService,
+  AuthTracingService,
+  TokenExtractorService,
+  WsAuthService,
+  PolicyRegistry,
+  AuthGuard,
+  ApiKeyGuard,
+  PermissionGuard,
+  RoleGuard,
+  ScopeGuard,
+  AuthorizeGuard,
+  PolicyGuard,
+  OwnershipGuard,
+  AuthPropagationInterceptor,
+];
+
+// Order matters: authentication must run before permission, role, scope, policy and ownership checks
+const GLOBAL_GUARD_PROVIDERS: Provider[] = [
+  { provide: APP_GUARD, useExisting: AuthGuard },
+  { provide: APP_GUARD, useExisting: PermissionGuard },
+  { provide: APP_GUARD, useExisting: RoleGuard },
+  { provide: APP_GUARD, useExisting: ScopeGuard },
+  { provide: APP_GUARD, useExisting: AuthorizeGuard },
+  { provide: APP_GUARD, useExisting: PolicyGuard },
+  { provide: APP_GUARD, useExisting: OwnershipGuard },
+];
+
+@Module({})
+export class AuthModule {
+  /**
+   * Register auth services and guards with a static options object
+   * @param options - Endpoint URLs, cache TTL, HTTP timeout and header names
+   */
+  static forRoot(options: AuthModuleOptions = {}): DynamicModule {
+    return {
+      module: AuthModule,
+      global: options.isGlobal,
+      imports: [HttpModule],
+      providers: [
+        { provide: AUTH_MODULE_OPTIONS, useValue: options },
+        ...AUTH_PROVIDERS,
+        ...(options.globalGuards ? GLOBAL_GUARD_PROVIDERS : []),
+      ],
+      exports: AUTH_EXPORTS,
+    };
+  }
+
+  /**
+   * Register auth services and guards with options resolved from DI
+   * (e.g. from ConfigService)
+   * @param options - Factory producing AuthModuleOptions plus its dependencies
+   */
+  static forRootAsync(options: AuthModuleAsyncOptions): DynamicModule {
+    return {
+      module: AuthModule,
+      global: options.isGlobal,
+      imports: [HttpModule, ...(options.imports || [])],
+      providers: [
+        {
+          provide: AUTH_MODULE_OPTIONS,
+          useFactory: options.useFactory,
+          inject: options.inject || [],
+        },
+        ...AUTH_PROVIDERS,
+        ...(options.globalGuards ? GLOBAL_GUARD_PROVIDERS : []),
+      ],
+      exports: AUTH_EXPORTS,
+    };
+  }
+}
@@ -0,0 +1,139 @@
+import { InMemoryRevocationTransport } from './revocation';
+import { BearerTokenStrategy, CookieTokenStrategy } from './token-strategies';
+import {
+  ApiKeyVerifier,
+  AuthCacheStore,
+  AuthMetrics,
+  AuthModuleOptions,
+  AuthTracer,
+  AuthzContextMapping,
+  JwksOptions,
+  RevocationTransport,
+} from './types';
+
+export type ResolvedJwksOptions = Required<Omit<JwksOptions, 'issuer' | 'audience' | 'claims'>>
+  & Pick<JwksOptions, 'issuer' | 'audience'>
+  & { claims: Required<NonNullable<JwksOptions['claims']>> };
+
+// Options left optional after resolution, and nested option objects whose fields get defaults
+type OptionalKeys = 'isGlobal' | 'globalGuards' | 'cacheStore' | 'jwks' | 'permissionBatchCheckUrl' | 'contextMapping' | 'metrics';
+type NestedKeys = 'headers' | 'decisionCache' | 'retry' | 'circuitBreaker' | 'staleWhileError' | 'ws' | 'csrf' | 'audit';
+
+export type ResolvedAuthOptions = Required<Omit<AuthModuleOptions, OptionalKeys | NestedKeys | 'apiKey' | 'tracing' | 'revocation'>>
+  & { [K in NestedKeys]: Required<NonNullable<AuthModuleOptions[K]>> }
+  & {
+    apiKey: { header: string; verifyUrl: string; verifier?: ApiKeyVerifier };
+    tracing: { enabled: boolean; tracer?: AuthTracer; propagate: boolean };
+    revocation: { transport: RevocationTransport; denyListTtlMs: number; store?: AuthCacheStore };
+    jwks?: ResolvedJwksOptions;
+    permissionBatchCheckUrl?: string;
+    contextMapping?: AuthzContextMapping;
+    metrics?: AuthMetrics;
+  };
+
+const DEFAULT_CORE_SERVICE_URL = 'http://core-service:3000';
+
+/**
+ * Merge user supplied module options with defaults.
+ * Environment variables are still honoured as fallbacks so that apps which
+ * wire the providers manually keep working without AuthModule.
+ */
+export function resolveAuthOptions(options: AuthModuleOptions = {}): ResolvedAuthOptions {
+  return {
+    introspectionUrl: options.introspectionUrl
+      || process.env.TOKEN_INTROSPECTION_URL
+      || `${DEFAULT_CORE_SERVICE_URL}/auth/introspect`,
+    permissionCheckUrl: options.permissionCheckUrl
+      || process.env.PERMISSION_CHECK_URL
+      || `${DEFAULT_CORE_SERVICE_URL}/auth/check-permission`,
+    roleCheckUrl: options.roleCheckUrl
+      || process.env.ROLE_CHECK_URL
+      || `${DEFAULT_CORE_SERVICE_URL}/auth/check-role`,
+    permissionBatchCheckUrl: options.permissionBatchCheckUrl,
+    apiKey: {
+      header: (options.apiKey?.header || 'x-api-key').toLowerCase(),
+      verifyUrl: options.apiKey?.verifyUrl
+        || process.env.API_KEY_VERIFY_URL
+        || `${DEFAULT_CORE_SERVICE_URL}/auth/verify-api-key`,
+      verifier: options.apiKey?.verifier,
+    },
+    batchConcurrency: options.batchConcurrency ?? 5,
+    cacheTtlMs: options.cacheTtlMs ?? 30_000,
+    cacheMaxEntries: options.cacheMaxEntries ?? 10_000,
+    decisionCache: {
+      allowTtlMs: options.decisionCache?.allowTtlMs ?? 30_000,
+      denyTtlMs: options.decisionCache?.denyTtlMs ?? 5_000,
+    },
+    staleWhileError: {
+      enabled: options.staleWhileError?.enabled ?? false,
+      graceMs: options.staleWhileError?.graceMs ?? 300_000,
+    },
+    audit: {
+      sinks: options.audit?.sinks || [],
+      requestIdHeader: (options.audit?.requestIdHeader || 'x-request-id').toLowerCase(),
+    },
+    metrics: options.metrics,
+    tracing: {
+      enabled: options.tracing?.enabled ?? true,
+      tracer: options.tracing?.tracer,
+      propagate: options.tracing?.propagate ?? true,
+    },
+    revocation: {
+      transport: options.revocation?.transport || new InMemoryRevocationTransport(),
+      denyListTtlMs: options.revocation?.denyListTtlMs ?? 86_400_000,
+      store: options.revocation?.store,
+    },
+    httpTimeoutMs: options.httpTimeoutMs ?? 5_000,
+    retry: {
+      retries: options.retry?.retries ?? 2,
+      baseDelayMs: options.retry?.baseDelayMs ?? 100,
+      maxDelayMs: options.retry?.maxDelayMs ?? 1_000,
+    },
+    circuitBreaker: {
+      failureThreshold: options.circuitBreaker?.failureThreshold ?? 5,
+      resetTimeoutMs: options.circuitBreaker?.resetTimeoutMs ?? 30_000,
+    },
+    cookieName: options.cookieName || 'access_token',
+    tokenExtractors: options.tokenExtractors || [
+      new BearerTokenStrategy(options.headers?.authorization || 'authorization'),
+      new CookieTokenStrategy(options.cookieName || 'access_token'),
+    ],
+    tokenConflictPolicy: options.tokenConflictPolicy || 'first-wins',
+    csrf: {
+      enabled: options.csrf?.enabled ?? false,
+      safeMethods: (options.csrf?.safeMethods || ['GET', 'HEAD', 'OPTIONS']).map((method) => method.toUpperCase()),
+      doubleSubmit: options.csrf?.doubleSubmit ?? true,
+      cookieName: options.csrf?.cookieName || 'csrf_token',
+      headerName: (options.csrf?.headerName || 'x-csrf-token').toLowerCase(),
+      allowedOrigins: options.csrf?.allowedOrigins || [],
+    },
+    ws: {
+      revalidateIntervalMs: options.ws?.revalidateIntervalMs ?? 60_000,
+    },
+    verificationMode: options.verificationMode || 'introspection',
+    metadataPrecedence: options.metadataPrecedence || 'override',
+    permissionEvaluation: options.permissionEvaluation || 'remote',
+    policies: options.policies || {},
+    contextMapping: options.contextMapping,
+    jwks: options.jwks && {
+      uri: options.jwks.uri,
+      issuer: options.jwks.issuer,
+      audience: options.jwks.audience,
+      algorithms: options.jwks.algorithms || ['RS256', 'ES256', 'EdDSA'],
+      clockToleranceSec: options.jwks.clockToleranceSec ?? 5,
+      cacheTtlMs: options.jwks.cacheTtlMs ?? 600_000,
+      refreshCooldownMs: options.jwks.refreshCooldownMs ?? 10_000,
+      requiredClaims: options.jwks.requiredClaims || [],
+      claims: {
+        role: options.jwks.claims?.role || 'role',
+        permissions: options.jwks.claims?.permissions || 'permissions',
+      },
+    },
+    headers: {
+      authorization: (options.headers?.authorization || 'authorization').toLowerCase(),
+      orgId: (options.headers?.orgId || 'x-org-id').toLowerCase(),
+      workspaceId: (options.headers?.workspaceId || 'x-workspace-id').toLowerCase(),
+      objectId: (options.headers?.objectId || 'x-object-id').toLowerCase(),
+    },
+  };
+}
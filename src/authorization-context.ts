@@ -0,0 +1,173 @@
+import { BadRequestException, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { AUTHZ_CONTEXT_KEY } from './auth.constants';
+import { ResolvedAuthOptions, resolveAuthOptions } from './auth.options';
+import type { AuthorizationContext, AuthzContextMapping, ContextValueResolver, ContextValueSource } from './types';
+
+type DescribedResolver = ContextValueResolver & { description?: string };
+
+const CONTEXT_KEYS: Array<keyof AuthorizationContext> = ['orgId', 'workspaceId', 'objectId', 'objectType'];
+
+function describe(resolve: ContextValueResolver, description: string): DescribedResolver {
+  return Object.assign(resolve, { description });
+}
+
+/**
+ * Read a dot-separated path of a nested object
+ */
+export function readPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value === null || value === undefined ? undefined : (value as Record<string, unknown>)[key]),
+    source,
+  );
+}
+
+/**
+ * Read a route parameter, e.g. param('orgId') for /orgs/:orgId
+ */
+export const param = (name: string): ContextValueResolver =>
+  describe((request) => request.params?.[name], `${name} route param`);
+
+/**
+ * Read a query string parameter
+ */
+export const query = (name: string): ContextValueResolver =>
+  describe((request) => request.query?.[name], `${name} query param`);
+
+/**
+ * Read a (dot-separated) path of the parsed request body
+ */
+export const body = (path: string): ContextValueResolver =>
+  describe((request) => readPath(request.body, path), `${path} body field`);
+
+/**
+ * Read a request header, matched case-insensitively
+ */
+export const header = (name: string): ContextValueResolver =>
+  describe((request) => request.headers?.[name.toLowerCase()], `${name.toLowerCase()} header`);
+
+/**
+ * Read a (dot-separated) path of the GraphQL resolver arguments,
+ * e.g. arg('input.orgId') for updateProject(input: { orgId })
+ */
+export const arg = (path: string): ContextValueResolver =>
+  describe(
+    (_request, context) => (context.getType<string>() === 'graphql' ? readPath(context.getArgByIndex(1), path) : undefined),
+    `${path} argument`,
+  );
+
+function toValue(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    return toValue(value[0]);
+  }
+  if (value === null || value === undefined || typeof value === 'object') {
+    return undefined;
+  }
+  return String(value).trim() || undefined;
+}
+
+async function resolveValue(source: ContextValueSource, request: Request, context: ExecutionContext) {
+  return typeof source === 'function' ? toValue(await source(request, context)) : toValue(source);
+}
+
+async function resolveContextValues(
+  context: ExecutionContext,
+  request: Request,
+  reflector: Reflector,
+  options: ResolvedAuthOptions,
+) {
+  const { headers } = options;
+  const routeMapping = reflector.getAllAndOverride<AuthzContextMapping | undefined>(AUTHZ_CONTEXT_KEY, [
+    context.getHandler(),
+    context.getClass(),
+  ]);
+  const mapping: AuthzContextMapping = {
+    orgId: header(headers.orgId),
+    workspaceId: header(headers.workspaceId),
+    objectId: header(headers.objectId),
+    ...options.contextMapping,
+    ...routeMapping,
+  };
+
+  const resolved: Partial<AuthorizationContext> = {};
+  for (const key of CONTEXT_KEYS) {
+    const source = mapping[key];
+    resolved[key] = source === undefined ? undefined : await resolveValue(source, request, context);
+  }
+
+  return { mapping, resolved };
+}
+
+/**
+ * Resolve the org/workspace/object context of a permission or role check
+ * Per value: @AuthzContext() mapping, then options.contextMapping, then the configured x-* headers
+ * @throws BadRequestException when no orgId could be resolved
+ */
+export async function resolveAuthorizationContext(
+  context: ExecutionContext,
+  request: Request,
+  reflector: Reflector,
+  options: ResolvedAuthOptions,
+): Promise<AuthorizationContext> {
+  const { mapping, resolved } = await resolveContextValues(context, request, reflector, options);
+
+  if (!resolved.orgId) {
+    const source = mapping.orgId as DescribedResolver | string | undefined;
+    const description = typeof source === 'function' && source.description ? source.description : 'orgId';
+    throw new BadRequestException(`Missing ${description}`);
+  }
+
+  return resolved as AuthorizationContext;
+}
+
+/**
+ * Resolve the authorization context like resolveAuthorizationContext(), but leave
+ * values that could not be resolved, including orgId, unset
+ */
+export async function resolveOptionalAuthorizationContext(
+  context: ExecutionContext,
+  request: Request,
+  reflector: Reflector,
+  options: ResolvedAuthOptions,
+): Promise<Partial<AuthorizationContext>> {
+  const { resolved } = await resolveContextValues(context, request, reflector, options);
+  return resolved;
+}
+
+// Options of the AuthGuard protecting each handler, so @AuthContext() resolves like the guards
+const handlerOptions = new WeakMap<object, ResolvedAuthOptions>();
+let defaultOptions: ResolvedAuthOptions | undefined;
+
+/**
+ * Record the options the context of the handler being activated is resolved with
+ */
+export function registerContextOptions(context: ExecutionContext, options: ResolvedAuthOptions): void {
+  handlerOptions.set(context.getHandler(), options);
+}
+
+/**
+ * Resolve the optional authorization context of the current invocation with the options
+ * registered by AuthGuard, or the default options when AuthGuard did not run
+ */
+export function resolveInvocationContext(
+  context: ExecutionContext,
+  request: Request,
+  reflector: Reflector,
+): Promise<Partial<AuthorizationContext>> {
+  const options = handlerOptions.get(context.getHandler()) ?? (defaultOptions ??= resolveAuthOptions());
+  return resolveOptionalAuthorizationContext(context, request, reflector, options);
+}
+
+/**
+ * Whether a check carries no org/workspace/object context at all
+ */
+export async function isContextFree(
+  context: ExecutionContext,
+  request: Request,
+  reflector: Reflector,
+  options: ResolvedAuthOptions,
+): Promise<boolean> {
+  const resolved = await resolveOptionalAuthorizationContext(context, request, reflector, options);
+  return Object.values(resolved).every((value) => value === undefined);
+}
@@ -0,0 +1,51 @@
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { MatchMode, MetadataPrecedence } from './types';
+
+type MetadataTarget = ReturnType<ExecutionContext['getHandler']> | ReturnType<ExecutionContext['getClass']>;
+
+export interface Requirement {
+  values: string[];
+  match: MatchMode;
+}
+
+function toList(value: string[] | string | undefined): string[] {
+  return Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+}
+
+/**
+ * Collect metadata from the handler and its controller class
+ * - override: handler-level metadata replaces class-level metadata
+ * - merge: metadata from both levels is returned and each must be satisfied
+ * @returns Handler-level entry first, then class-level
+ */
+export function collectMetadata<T>(
+  context: ExecutionContext,
+  read: (target: MetadataTarget) => T | undefined,
+  precedence: MetadataPrecedence,
+): T[] {
+  const targets: MetadataTarget[] = [context.getHandler(), context.getClass()];
+  const levels = targets
+    .map((target) => read(target))
+    .filter((value): value is T => value !== undefined);
+  return precedence === 'merge' ? levels : levels.slice(0, 1);
+}
+
+/**
+ * Role or permission requirements of a route; the match mode is always taken
+ * from the same level as the list it applies to
+ */
+export function getRequirements(
+  reflector: Reflector,
+  context: ExecutionContext,
+  valuesKey: string,
+  matchKey: string,
+  precedence: MetadataPrecedence,
+): Requirement[] {
+  return collectMetadata(context, (target) => {
+    const values = toList(reflector.get<string[] | string>(valuesKey, target));
+    return values.length
+      ? { values, match: reflector.get<MatchMode>(matchKey, target) || 'all' }
+      : undefined;
+  }, precedence);
+}
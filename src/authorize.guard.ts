@@ -0,0 +1,178 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  Optional,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { performance } from 'perf_hooks';
+import { AUTH_MODULE_OPTIONS, AUTHORIZE_KEY, FAIL_CLOSED_KEY } from './auth.constants';
+import { ResolvedAuthOptions, resolveAuthOptions } from './auth.options';
+import { activateOnce, getRequest } from './execution-context';
+import { applyRetryAfter } from './auth.exceptions';
+import { resolveAuthorizationContext } from './authorization-context';
+import { collectMetadata } from './authorization-metadata';
+import { AuthValidatorService } from './auth-validator.service';
+import { AuditRecorder, AuthAuditService, DecisionSourceTracker } from './auth-audit';
+import { AuthTracingService } from './auth-tracing';
+import type { AuthCheckOptions, AuthModuleOptions, AuthorizationContext, AuthorizeOptions, User } from './types';
+
+function toList(value: string[] | string | undefined): string[] {
+  return Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+}
+
+/**
+ * Evaluates @Authorize() role and permission requirements in a single pass
+ */
+@Injectable()
+export class AuthorizeGuard implements CanActivate {
+  private readonly logger = new Logger(AuthorizeGuard.name);
+  private readonly options: ResolvedAuthOptions;
+
+  constructor(
+    private reflector: Reflector,
+    private authValidator: AuthValidatorService,
+    @Optional() @Inject(AUTH_MODULE_OPTIONS) options?: AuthModuleOptions,
+    @Optional() private audit?: AuthAuditService,
+    @Optional() private tracing?: AuthTracingService,
+  ) {
+    this.options = resolveAuthOptions(options);
+  }
+
+  canActivate(context: ExecutionContext): boolean | Promise<boolean> {
+    return activateOnce(context, 'authorize', () =>
+      this.tracing ? this.tracing.guard('authorize', () => this.authorize(context)) : this.authorize(context));
+  }
+
+  private async authorize(context: ExecutionContext): Promise<boolean> {
+    const startedAt = performance.now();
+    const requirements = collectMetadata(
+      context,
+      (target) => this.reflector.get<AuthorizeOptions>(AUTHORIZE_KEY, target),
+      this.options.metadataPrecedence,
+    );
+
+    if (requirements.length === 0) {
+      return true; // Nothing to authorize
+    }
+
+    const request = getRequest<Request>(context);
+    const user = request.user as User;
+    const record: AuditRecorder = (entry) =>
+      this.audit?.record(context, { check: 'authorize', startedAt, user, ...entry });
+
+    if (!user || !user.sub) {
+      record({ outcome: 'deny', reason: 'missing_user' });
+      this.logger.error('User not found in request');
+      throw new ForbiddenException('Access denied');
+    }
+
+    const authContext = await resolveAuthorizationContext(context, request, this.reflector, this.options)
+      .catch((error: unknown) => {
+        record({ outcome: 'deny', reason: 'missing_context' });
+        throw error;
+      });
+
+    // Expose the resolved context to @AuthContext()
+    request.authContext = authContext;
+
+    const failClosed = this.reflector.getAllAndOverride<boolean>(FAIL_CLOSED_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    for (const requirement of requirements) {
+      const tracker = new DecisionSourceTracker();
+      const checkOptions: AuthCheckOptions = { allowStale: !failClosed, onSource: tracker.onSource };
+      const audited = {
+        required: {
+          roles: toList(requirement.roles),
+          permissions: toList(requirement.permissions),
+          rolesMatch: requirement.rolesMatch || 'all',
+          permissionsMatch: requirement.permissionsMatch || 'all',
+          combine: requirement.combine || 'and',
+        },
+        context: authContext,
+      };
+      try {
+        const allowed = await this.evaluate(user, requirement, authContext, checkOptions);
+
+        record({
+          ...audited,
+          outcome: allowed ? 'allow' : 'deny',
+          reason: allowed ? 'granted' : 'denied',
+          source: tracker.source,
+        });
+        if (!allowed) {
+          this.logger.warn(`User ${user.sub} does not satisfy ${JSON.stringify(requirement)} in org=${authContext.orgId}`);
+          throw new ForbiddenException('Access denied');
+        }
+      } catch (error) {
+        if (!(error instanceof ForbiddenException)) {
+          const reason = error instanceof ServiceUnavailableException ? 'service_unavailable' : 'error';
+          record({ ...audited, outcome: 'error', reason, source: tracker.source });
+        }
+        if (error instanceof ServiceUnavailableException) {
+          // Bubble up 503 per requirements
+          applyRetryAfter(context, error);
+          throw error;
+        }
+        this.logger.error(`Error authorizing user ${user.sub}`, {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          requirement,
+          ...authContext,
+        });
+        throw new ForbiddenException('Access denied');
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Check roles first, then permissions; 'or' stops at the first satisfied
+   * requirement, 'and' at the first unsatisfied one
+   */
+  private async evaluate(
+    user: User,
+    requirement: AuthorizeOptions,
+    authContext: AuthorizationContext,
+    checkOptions: AuthCheckOptions,
+  ): Promise<boolean> {
+    const roles = toList(requirement.roles);
+    const permissions = toList(requirement.permissions);
+    const checks: Array<() => Promise<boolean>> = [];
+
+    if (roles.length) {
+      checks.push(() => this.authValidator.checkRole(
+        user, roles, requirement.rolesMatch || 'all', authContext, checkOptions,
+      ));
+    }
+    if (permissions.length) {
+      checks.push(() => this.authValidator.checkPermission(
+        user, permissions, requirement.permissionsMatch || 'all', authContext, checkOptions,
+      ));
+    }
+
+    if (checks.length === 0) {
+      return true;
+    }
+
+    const combine = requirement.combine || 'and';
+    for (const check of checks) {
+      const passed = await check();
+      if (combine === 'or' && passed) {
+        return true;
+      }
+      if (combine === 'and' && !passed) {
+        return false;
+      }
+    }
+    return combine === 'and';
+  }
+}
@@ -0,0 +1,81 @@
+interface QueuedItem<K, V> {
+  key: K;
+  resolve: (value: V) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * DataLoader-style batcher: keys loaded within the same tick are collected
+ * and handed to batchFn in one call per group
+ */
+export class BatchLoader<K, V> {
+  private queues = new Map<string, QueuedItem<K, V>[]>();
+  private scheduled = false;
+
+  /**
+   * @param batchFn - Resolves a batch of keys; must return one value per key, in order
+   * @param groupBy - Keys with different groups are never sent in the same batch
+   */
+  constructor(
+    private readonly batchFn: (keys: K[]) => Promise<V[]>,
+    private readonly groupBy: (key: K) => string = () => '',
+  ) { }
+
+  load(key: K): Promise<V> {
+    return new Promise<V>((resolve, reject) => {
+      const group = this.groupBy(key);
+      const queue = this.queues.get(group) || [];
+      queue.push({ key, resolve, reject });
+      this.queues.set(group, queue);
+      this.schedule();
+    });
+  }
+
+  private schedule(): void {
+    if (this.scheduled) {
+      return;
+    }
+    this.scheduled = true;
+    // Run after pending promise jobs so awaits in the same tick can still enqueue
+    Promise.resolve().then(() => process.nextTick(() => this.dispatch()));
+  }
+
+  private dispatch(): void {
+    const queues = this.queues;
+    this.queues = new Map();
+    this.scheduled = false;
+
+    for (const queue of queues.values()) {
+      this.batchFn(queue.map((item) => item.key)).then(
+        (values) => {
+          if (values.length !== queue.length) {
+            throw new Error(`Batch function returned ${values.length} results for ${queue.length} keys`);
+          }
+          queue.forEach((item, i) => item.resolve(values[i]));
+        },
+      ).catch((error) => queue.forEach((item) => item.reject(error)));
+    }
+  }
+}
+
+/**
+ * Map items through an async function with at most `limit` calls in flight
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
@@ -0,0 +1,72 @@
+import { timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+import { ResolvedAuthOptions } from './auth.options';
+import type { TokenSource } from './types';
+
+// Sources a browser attaches automatically, and which are therefore forgeable cross-site
+const AMBIENT_SOURCES: TokenSource[] = ['cookie', 'signed-cookie'];
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function requestOrigin(request: Request): string | undefined {
+  const origin = request.headers?.origin;
+  if (typeof origin === 'string' && origin !== 'null') {
+    return origin;
+  }
+  const referer = request.headers?.referer;
+  if (typeof referer === 'string') {
+    try {
+      return new URL(referer).origin;
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check a request authenticated by a cookie for cross-site request forgery
+ * @param request - HTTP request
+ * @param source - Source the access token was found in
+ * @param csrf - Resolved CSRF options
+ * @returns Reason of the failure, or undefined when the request passes
+ */
+export function verifyCsrf(
+  request: Request,
+  source: TokenSource,
+  csrf: ResolvedAuthOptions['csrf'],
+): string | undefined {
+  if (!csrf.enabled || !AMBIENT_SOURCES.includes(source)) {
+    return undefined;
+  }
+  if (csrf.safeMethods.includes(String(request.method || 'GET').toUpperCase())) {
+    return undefined;
+  }
+
+  if (csrf.allowedOrigins.length > 0) {
+    const origin = requestOrigin(request);
+    if (!origin) {
+      return 'missing Origin and Referer headers';
+    }
+    if (!csrf.allowedOrigins.includes(origin)) {
+      return `origin ${origin} is not allowed`;
+    }
+  }
+
+  if (csrf.doubleSubmit) {
+    const header = request.headers?.[csrf.headerName];
+    const cookie = request.cookies?.[csrf.cookieName];
+    if (typeof header !== 'string' || typeof cookie !== 'string' || !header || !cookie) {
+      return 'missing CSRF token';
+    }
+    if (!safeEqual(header, cookie)) {
+      return 'CSRF token mismatch';
+    }
+  }
+
+  return undefined;
+}
@@ -1,22 +1,64 @@
 import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import {
+  AUTH_STRATEGIES_KEY,
+  AUTHORIZE_KEY,
+  AUTHZ_CONTEXT_KEY,
+  FAIL_CLOSED_KEY,
+  IS_PUBLIC_KEY,
+  OPTIONAL_AUTH_KEY,
+  OWNERSHIP_KEY,
+  PERMISSIONS_KEY,
+  PERMISSIONS_MATCH_KEY,
+  POLICY_KEY,
+  ROLES_KEY,
+  ROLES_MATCH_KEY,
+  SCOPES_KEY,
+  SCOPES_MATCH_KEY,
+} from './auth.constants';
 import { AuthGuard } from './auth.guard';
+import { AuthorizeGuard } from './authorize.guard';
+import { OwnershipGuard } from './ownership.guard';
 import { PermissionGuard } from './permission.guard';
+import { PolicyGuard, PolicyMetadata } from './policy.guard';
 import { RoleGuard } from './role.guard';
+import { ScopeGuard } from './scope.guard';
+import type { AuthOptions, AuthorizeOptions, AuthzContextMapping, MatchMode, OwnershipOptions, PolicyOptions } from './types';
 
 /**
  * Combined auth decorator to ensure token is validated before other checks
+ * Overrides a class-level @Public()
+ * @example @Auth({ strategies: ['jwt', 'apiKey'] }) accepts a user token or an API key
  */
-export const Auth = () => applyDecorators(UseGuards(AuthGuard));
+export const Auth = (options: AuthOptions = {}) => applyDecorators(
+  SetMetadata(IS_PUBLIC_KEY, false),
+  ...(options.strategies ? [SetMetadata(AUTH_STRATEGIES_KEY, options.strategies)] : []),
+  UseGuards(AuthGuard),
+);
+
+/**
+ * Skip authentication for a handler or a whole controller
+ * (used with globally registered guards)
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+/**
+ * Populate request.user when a valid token is present,
+ * but let anonymous callers through
+ */
+export const OptionalAuth = () => applyDecorators(
+  SetMetadata(OPTIONAL_AUTH_KEY, true),
+  UseGuards(AuthGuard),
+);
 
 /**
  * Require one or more permissions with match mode (any|all)
  * Defaults to 'all'
  */
-export const RequirePermissions = (permissions: string[] | string, match: 'any' | 'all' = 'all') => {
+export const RequirePermissions = (permissions: string[] | string, match: MatchMode = 'all') => {
   const list = Array.isArray(permissions) ? permissions : [permissions];
   return applyDecorators(
-    SetMetadata('permissions', list),
-    SetMetadata('match', match),
+    SetMetadata(PERMISSIONS_KEY, list),
+    SetMetadata(PERMISSIONS_MATCH_KEY, match),
     UseGuards(PermissionGuard),
   );
 };
@@ -25,11 +67,71 @@ export const RequirePermissions = (permissions: string[] | string, match: 'any'
  * Require one or more roles with match mode (any|all)
  * Defaults to 'all'
  */
-export const RequireRoles = (roles: string[] | string, match: 'any' | 'all' = 'all') => {
+export const RequireRoles = (roles: string[] | string, match: MatchMode = 'all') => {
   const list = Array.isArray(roles) ? roles : [roles];
   return applyDecorators(
-    SetMetadata('roles', list),
-    SetMetadata('match', match),
+    SetMetadata(ROLES_KEY, list),
+    SetMetadata(ROLES_MATCH_KEY, match),
     UseGuards(RoleGuard),
   );
-};
\ No newline at end of file
+};
+
+/**
+ * Require one or more OAuth2 scopes with match mode (any|all)
+ * Checked locally against the token's scopes, without a call to core-service
+ * Defaults to 'all'
+ */
+export const RequireScopes = (scopes: string[] | string, match: MatchMode = 'all') => {
+  const list = Array.isArray(scopes) ? scopes : [scopes];
+  return applyDecorators(
+    SetMetadata(SCOPES_KEY, list),
+    SetMetadata(SCOPES_MATCH_KEY, match),
+    UseGuards(ScopeGuard),
+  );
+};
+
+/**
+ * Require roles and/or permissions evaluated together in one guard pass
+ * combine: 'and' (default) requires both, 'or' requires either
+ */
+export const Authorize = (options: AuthorizeOptions) => applyDecorators(
+  SetMetadata(AUTHORIZE_KEY, options),
+  UseGuards(AuthorizeGuard),
+);
+
+/**
+ * Require a registered policy (see PolicyRegistry) to allow the request
+ * Stacked @Policy() decorators must all allow; they are evaluated top to bottom
+ * @example @Policy('document.edit', { resource: (req) => documents.findOne(req.params.id) })
+ */
+export const Policy = (name: string, options: PolicyOptions = {}) => {
+  const addPolicy = (target: object, _key?: string | symbol, descriptor?: PropertyDescriptor) => {
+    const holder = descriptor ? descriptor.value : target;
+    const existing: PolicyMetadata[] = Reflect.getMetadata(POLICY_KEY, holder) || [];
+    // Decorators run bottom-up, so prepend to keep declaration order
+    Reflect.defineMetadata(POLICY_KEY, [{ ...options, name }, ...existing], holder);
+  };
+  return applyDecorators(addPolicy, UseGuards(PolicyGuard));
+};
+
+/**
+ * Require the user to own the resource loaded by a ResourceLoader provider, or to hold
+ * one of bypassPermissions; the resource is then available through @CurrentResource()
+ * @example @RequireOwnership({ loader: OrderLoader, ownerField: 'createdBy', bypassPermissions: ['order.manage'] })
+ */
+export const RequireOwnership = (options: OwnershipOptions) => applyDecorators(
+  SetMetadata(OWNERSHIP_KEY, options),
+  UseGuards(OwnershipGuard),
+);
+
+/**
+ * Declare where the authorization context of a route comes from
+ * @example @AuthzContext({ orgId: param('orgId'), objectId: param('projectId'), objectType: 'project' })
+ */
+export const AuthzContext = (mapping: AuthzContextMapping) => SetMetadata(AUTHZ_CONTEXT_KEY, mapping);
+
+/**
+ * Never serve stale cached auth results for this route, even when
+ * staleWhileError is enabled (e.g. payment endpoints must fail closed)
+ */
+export const FailClosed = () => SetMetadata(FAIL_CLOSED_KEY, true);
@@ -0,0 +1,204 @@
+import { ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { RPC_AUTH_FIELD } from './auth.constants';
+import type { AuthAuditCheck, AuthorizationContext, User, WsClient } from './types';
+
+// Checks that already allowed an invocation; Nest passes one ExecutionContext to all of its guards
+const allowedChecks = new WeakMap<ExecutionContext, Set<AuthAuditCheck>>();
+
+// Users validated by AuthGuard or WsAuthService; any other request.user is not trusted
+const authenticatedUsers = new WeakSet<object>();
+
+type RequestState = { user?: User; authContext?: AuthorizationContext; resource?: unknown };
+
+// State of RPC invocations whose transport context is not an object, keyed by the handler args
+const rpcStates = new WeakMap<unknown[], RequestState>();
+
+/**
+ * Request-like view of a WebSocket message: handshake headers and query,
+ * the message payload as body, and user/authContext/resource kept on client.data
+ */
+function getWsRequest(context: ExecutionContext) {
+  const ws = context.switchToWs();
+  const client = ws.getClient<WsClient>();
+  const data = (client.data = client.data || {});
+  return {
+    headers: client.handshake?.headers || {},
+    query: client.handshake?.query || {},
+    params: {},
+    body: ws.getData<unknown>(),
+    get user(): User | undefined {
+      return data.user;
+    },
+    set user(user: User | undefined) {
+      data.user = user;
+    },
+    get authContext(): AuthorizationContext | undefined {
+      return data.authContext;
+    },
+    set authContext(authContext: AuthorizationContext | undefined) {
+      data.authContext = authContext;
+    },
+    get resource(): unknown {
+      return data.resource;
+    },
+    set resource(resource: unknown) {
+      data.resource = resource;
+    },
+  };
+}
+
+type HeaderSource = Record<string, unknown> | { get(name: string): unknown };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Transport headers of an RPC message: gRPC Metadata, NATS headers,
+ * Kafka message headers or RabbitMQ message properties
+ */
+function getRpcHeaderSource(rpcContext: unknown): HeaderSource | undefined {
+  if (!isObject(rpcContext)) {
+    return undefined;
+  }
+  if (typeof rpcContext.get === 'function') {
+    return rpcContext as HeaderSource;
+  }
+  if (typeof rpcContext.getHeaders === 'function') {
+    const headers = rpcContext.getHeaders();
+    return isObject(headers) ? headers : undefined;
+  }
+  if (typeof rpcContext.getMessage === 'function') {
+    const message = rpcContext.getMessage();
+    const headers = isObject(message) && (message.headers ?? (isObject(message.properties) ? message.properties.headers : undefined));
+    return isObject(headers) ? headers : undefined;
+  }
+  return undefined;
+}
+
+function readHeader(source: HeaderSource | undefined, name: string): string | undefined {
+  if (!source) {
+    return undefined;
+  }
+  const value = typeof source.get === 'function'
+    ? (source as { get(name: string): unknown }).get(name)
+    : (source as Record<string, unknown>)[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first === undefined || first === null ? undefined : String(first);
+}
+
+function rpcStateOf(args: unknown[]): RequestState {
+  let state = rpcStates.get(args);
+  if (!state) {
+    state = {};
+    rpcStates.set(args, state);
+  }
+  return state;
+}
+
+/**
+ * Request-like view of an RPC message: headers from the payload's $auth field,
+ * falling back to transport headers, the payload as body, and user/authContext/resource
+ * kept on the RPC context (or per invocation when the transport has no context object)
+ */
+function getRpcRequest(context: ExecutionContext) {
+  const rpc = context.switchToRpc();
+  const payload = rpc.getData<unknown>();
+  const rpcContext = rpc.getContext<unknown>();
+  const envelope = isObject(payload) && isObject(payload[RPC_AUTH_FIELD]) ? payload[RPC_AUTH_FIELD] : {};
+  const transportHeaders = getRpcHeaderSource(rpcContext);
+  // Never the payload: identity must not come from the message itself
+  const target: RequestState = isObject(rpcContext) ? rpcContext : rpcStateOf(context.getArgs());
+
+  const headers = new Proxy<Record<string, string | undefined>>({}, {
+    get: (_headers, name) => (typeof name === 'string'
+      ? readHeader(envelope, name.toLowerCase()) ?? readHeader(transportHeaders, name.toLowerCase())
+      : undefined),
+  });
+
+  return {
+    headers,
+    query: {},
+    params: {},
+    body: payload,
+    get user(): User | undefined {
+      return target.user;
+    },
+    set user(user: User | undefined) {
+      target.user = user;
+    },
+    get authContext(): AuthorizationContext | undefined {
+      return target.authContext;
+    },
+    set authContext(authContext: AuthorizationContext | undefined) {
+      target.authContext = authContext;
+    },
+    get resource(): unknown {
+      return target.resource;
+    },
+    set resource(resource: unknown) {
+      target.resource = resource;
+    },
+  };
+}
+
+/**
+ * Resolve the object carrying headers and `user` for any transport:
+ * the HTTP request, the request inside a GraphQL context, or a view of the
+ * RPC message or the WebSocket client and message
+ */
+export function getRequest<T = Request>(context: ExecutionContext): T {
+  switch (context.getType<string>()) {
+    case 'graphql': {
+      // GraphQL resolvers receive (root, args, context, info); context holds req (express) or request (fastify)
+      const gqlContext = context.getArgByIndex(2) || {};
+      return (gqlContext.req || gqlContext.request || gqlContext) as T;
+    }
+    case 'rpc':
+      return getRpcRequest(context) as T;
+    case 'ws':
+      return getWsRequest(context) as T;
+    default:
+      return context.switchToHttp().getRequest<T>();
+  }
+}
+
+/**
+ * Run a guard's check at most once per invocation: with globalGuards, the UseGuards()
+ * added by a route decorator registers the same guard again, and the repeat allows
+ * without calling the auth service or recording a second audit event
+ */
+export function activateOnce(
+  context: ExecutionContext,
+  check: AuthAuditCheck,
+  activate: () => boolean | Promise<boolean>,
+): boolean | Promise<boolean> {
+  if (allowedChecks.get(context)?.has(check)) {
+    return true;
+  }
+  const remember = (allowed: boolean) => {
+    if (allowed) {
+      allowedChecks.set(context, (allowedChecks.get(context) ?? new Set<AuthAuditCheck>()).add(check));
+    }
+    return allowed;
+  };
+  const result = activate();
+  return typeof result === 'boolean' ? remember(result) : result.then(remember);
+}
+
+/**
+ * Mark a user as validated by this package, so later guards of the request may trust it
+ */
+export function markAuthenticated(user: User): User {
+  authenticatedUsers.add(user);
+  return user;
+}
+
+/**
+ * Whether request.user was validated by this package, rather than set by other code
+ * or taken from a message
+ */
+export function isAuthenticated(user: unknown): user is User {
+  return isObject(user) && authenticatedUsers.has(user);
+}
@@ -1,14 +1,138 @@
+// Module
+export { AuthModule } from './auth.module';
+export {
+  AUTH_CACHE_STORE,
+  AUTH_MODULE_OPTIONS,
+  AUTH_STRATEGIES_KEY,
+  AUTHORIZE_KEY,
+  AUTHZ_CONTEXT_KEY,
+  FAIL_CLOSED_KEY,
+  IS_PUBLIC_KEY,
+  OPTIONAL_AUTH_KEY,
+  OWNERSHIP_KEY,
+  PERMISSIONS_KEY,
+  PERMISSIONS_MATCH_KEY,
+  POLICY_KEY,
+  ROLES_KEY,
+  ROLES_MATCH_KEY,
+  RPC_AUTH_FIELD,
+  SCOPES_KEY,
+  SCOPES_MATCH_KEY,
+} from './auth.constants';
+
 // Services
 export { AuthValidatorService } from './auth-validator.service';
 export { TokenExtractorService } from './token-extractor.service';
+export {
+  BearerTokenStrategy,
+  CookieTokenStrategy,
+  HeaderTokenStrategy,
+  QueryTokenStrategy,
+  SignedCookieTokenStrategy,
+} from './token-strategies';
+export { WsAuthService } from './ws-auth.service';
+export { PolicyRegistry } from './policy';
+export { AuthAuditService, ConsoleJsonAuditSink, InMemoryAuditSink, redactAuditEvent } from './auth-audit';
+export { AUTH_METRIC_DEFINITIONS, DEFAULT_LATENCY_BUCKETS, InMemoryAuthMetrics, PromClientAuthMetrics } from './auth-metrics';
+export { AuthTracingService, InMemoryAuthTracer, traceContextHeaders } from './auth-tracing';
+export type { RecordedAuthSpan } from './auth-tracing';
+export { JwtVerifierService } from './jwt-verifier.service';
+export { apiKeyCacheKey, LruAuthCacheStore, TtlAuthCacheStore, tokenCacheKey } from './auth-cache.store';
+export { InMemoryRevocationTransport } from './revocation';
+export { HashedApiKeyVerifier, hashApiKey } from './api-key';
+export type { HashedApiKey } from './api-key';
+
+// Resilience
+export { AuthServiceUnavailableException } from './auth.exceptions';
+export { CircuitBreaker, CircuitOpenError } from './resilience';
+export type { CircuitState, CircuitStateChange } from './resilience';
 
 // Types
-export type { User } from './types';
+export type {
+  ApiKeyVerifier,
+  AuthAuditCheck,
+  AuthAuditEvent,
+  AuthAuditOutcome,
+  AuthAuditReason,
+  AuthAuditRequirement,
+  AuthAuditSink,
+  AuthCacheStore,
+  AuthCheckOptions,
+  AuthDecisionSource,
+  AuthMetricLabels,
+  AuthMetricName,
+  AuthMetrics,
+  AuthModuleAsyncOptions,
+  AuthModuleOptions,
+  AuthOptions,
+  AuthorizationContext,
+  AuthPropagationState,
+  AuthSpan,
+  AuthSpanAttributes,
+  AuthStrategy,
+  AuthTracer,
+  AuthorizeOptions,
+  AuthzContextMapping,
+  CacheStats,
+  ContextValueResolver,
+  ContextValueSource,
+  ExtractedToken,
+  IntrospectionResponse,
+  JwksOptions,
+  JwtAlgorithm,
+  JsonPolicy,
+  JwtClaims,
+  MatchMode,
+  MetadataPrecedence,
+  OwnershipOptions,
+  PermissionCheck,
+  PermissionEvaluationMode,
+  PolicyChecks,
+  PolicyCondition,
+  PolicyContext,
+  PolicyDecision,
+  PolicyDefinition,
+  PolicyFunction,
+  PolicyInput,
+  PolicyOperand,
+  PolicyOptions,
+  PolicyResult,
+  PolicyRule,
+  PromClientLike,
+  PromRegistryLike,
+  ResourceLoader,
+  RevocationEvent,
+  RevocationTransport,
+  RpcClient,
+  TokenConflictPolicy,
+  TokenExtractionStrategy,
+  TokenSource,
+  TokenVerificationMode,
+  User,
+  WsClient,
+  WsHandshake,
+} from './types';
 
 // Guards
 export { AuthGuard } from './auth.guard';
+export { ApiKeyGuard } from './api-key.guard';
 export { PermissionGuard } from './permission.guard';
 export { RoleGuard } from './role.guard';
+export { ScopeGuard } from './scope.guard';
+export { AuthorizeGuard } from './authorize.guard';
+export { PolicyGuard } from './policy.guard';
+export { OwnershipGuard } from './ownership.guard';
+
+// Identity propagation
+export { AuthPropagationInterceptor } from './auth-propagation.interceptor';
+export { attachAuthMetadata, AuthClientProxy, getAuthMetadata, getCurrentAuth, runWithAuth } from './auth-propagation';
 
 // Decorators
-export { Auth, RequirePermissions, RequireRoles } from './decorators';
+export { Auth, Authorize, AuthzContext, FailClosed, OptionalAuth, Policy, Public, RequireOwnership, RequirePermissions, RequireRoles, RequireScopes } from './decorators';
+export { AccessToken, AuthContext, CurrentResource, CurrentUser } from './param.decorators';
+
+// Utilities
+export { arg, body, header, param, query, resolveAuthorizationContext } from './authorization-context';
+export { getRequest } from './execution-context';
+export { hasScopes, parseScopes } from './scopes';
+export { hasPermissions, matchesPermission } from './permission-matcher';
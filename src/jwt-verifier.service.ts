@@ -0,0 +1,260 @@
+import { HttpService } from '@nestjs/axios';
+import { Inject, Injectable, Logger, Optional, ServiceUnavailableException, UnauthorizedException } from '@nestjs/common';
+import type { AxiosError } from 'axios';
+import { createPublicKey, JsonWebKey, KeyObject, verify } from 'crypto';
+import { firstValueFrom, timeout } from 'rxjs';
+import { AUTH_MODULE_OPTIONS } from './auth.constants';
+import { ResolvedJwksOptions, resolveAuthOptions } from './auth.options';
+import { fromJwtClaims } from './scopes';
+import type { AuthModuleOptions, JwtAlgorithm, JwtClaims, User } from './types';
+
+interface DecodedJwt {
+  header: { alg?: string; kid?: string; typ?: string };
+  claims: JwtClaims;
+  signingInput: string;
+  signature: Buffer;
+}
+
+type Jwk = JsonWebKey & { kid?: string; alg?: string; use?: string };
+
+// Key type each supported algorithm must be verified with
+const KEY_TYPES: Record<JwtAlgorithm, string> = {
+  RS256: 'RSA',
+  ES256: 'EC',
+  EdDSA: 'OKP',
+};
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+}
+
+@Injectable()
+export class JwtVerifierService {
+  private readonly logger = new Logger(JwtVerifierService.name);
+  private readonly options?: ResolvedJwksOptions;
+  private readonly httpTimeoutMs: number;
+
+  // Verification keys by kid, replaced as a whole on every JWKS fetch
+  private keys = new Map<string, { jwk: Jwk; key: KeyObject }>();
+  private fetchedAt = 0;
+  private failedAt = 0;
+  private pendingFetch?: Promise<void>;
+
+  constructor(
+    private httpService: HttpService,
+    @Optional() @Inject(AUTH_MODULE_OPTIONS) options?: AuthModuleOptions,
+  ) {
+    const resolved = resolveAuthOptions(options);
+    this.options = resolved.jwks;
+    this.httpTimeoutMs = resolved.httpTimeoutMs;
+  }
+
+  /**
+   * Decode a compact JWS without verifying it
+   * @param token - Access token
+   * @returns Decoded header and claims, or undefined for opaque (non-JWT) tokens
+   */
+  decode(token: string): DecodedJwt | undefined {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      return undefined;
+    }
+    try {
+      const header = decodeSegment<DecodedJwt['header']>(parts[0]);
+      const claims = decodeSegment<JwtClaims>(parts[1]);
+      if (!header || typeof header !== 'object' || !claims || typeof claims !== 'object') {
+        return undefined;
+      }
+      return {
+        header,
+        claims,
+        signingInput: `${parts[0]}.${parts[1]}`,
+        signature: Buffer.from(parts[2], 'base64url'),
+      };
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Verify JWT signature against the JWKS document and validate exp/nbf/iss/aud
+   * @param decoded - Token decoded with decode()
+   * @returns Promise<JwtClaims> - Verified claims
+   */
+  async verify(decoded: DecodedJwt): Promise<JwtClaims> {
+    const options = this.getOptions();
+    const alg = decoded.header.alg as JwtAlgorithm;
+
+    if (!options.algorithms.includes(alg)) {
+      this.logger.warn(`Rejected token signed with unsupported algorithm ${decoded.header.alg}`);
+      throw new UnauthorizedException('Invalid token');
+    }
+
+    const jwk = await this.getKey(decoded.header.kid);
+    if (!jwk || jwk.jwk.kty !== KEY_TYPES[alg] || (jwk.jwk.alg && jwk.jwk.alg !== alg)) {
+      this.logger.warn(`No matching verification key for kid=${decoded.header.kid}`);
+      throw new UnauthorizedException('Invalid token');
+    }
+
+    const data = Buffer.from(decoded.signingInput);
+    const valid = alg === 'EdDSA'
+      ? verify(null, data, jwk.key, decoded.signature)
+      : alg === 'ES256'
+        ? verify('sha256', data, { key: jwk.key, dsaEncoding: 'ieee-p1363' }, decoded.signature)
+        : verify('sha256', data, jwk.key, decoded.signature);
+
+    if (!valid) {
+      this.logger.warn('Token signature verification failed');
+      throw new UnauthorizedException('Invalid token');
+    }
+
+    this.validateClaims(decoded.claims, options);
+    return decoded.claims;
+  }
+
+  /**
+   * Check that all configured requiredClaims are present
+   */
+  hasRequiredClaims(claims: JwtClaims): boolean {
+    return this.getOptions().requiredClaims.every((claim) => claims[claim] !== undefined && claims[claim] !== null);
+  }
+
+  /**
+   * Map verified claims to User
+   */
+  toUser(claims: JwtClaims, token: string): User {
+    const { claims: names } = this.getOptions();
+    const role = claims[names.role];
+    const permissions = claims[names.permissions];
+
+    return {
+      sub: claims.sub,
+      role: typeof role === 'string' ? role : undefined,
+      permissions: Array.isArray(permissions)
+        ? permissions.map(String)
+        : typeof permissions === 'string'
+          ? permissions.split(' ').filter(Boolean)
+          : undefined,
+      ...fromJwtClaims(claims),
+      accessToken: token,
+    };
+  }
+
+  private validateClaims(claims: JwtClaims, options: ResolvedJwksOptions): void {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = options.clockToleranceSec;
+
+    if (!claims.sub) {
+      throw new UnauthorizedException('Invalid token');
+    }
+    if (typeof claims.exp === 'number' && claims.exp + tolerance <= now) {
+      this.logger.warn('Token has expired');
+      throw new UnauthorizedException('Invalid token');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+      this.logger.warn('Token is not yet valid');
+      throw new UnauthorizedException('Invalid token');
+    }
+    if (options.issuer) {
+      const issuers = Array.isArray(options.issuer) ? options.issuer : [options.issuer];
+      if (!claims.iss || !issuers.includes(claims.iss)) {
+        this.logger.warn(`Token issuer ${claims.iss} is not accepted`);
+        throw new UnauthorizedException('Invalid token');
+      }
+    }
+    if (options.audience) {
+      const expected = Array.isArray(options.audience) ? options.audience : [options.audience];
+      const actual = Array.isArray(claims.aud) ? claims.aud : claims.aud ? [claims.aud] : [];
+      if (!actual.some((aud) => expected.includes(aud))) {
+        this.logger.warn(`Token audience ${actual.join(', ')} is not accepted`);
+        throw new UnauthorizedException('Invalid token');
+      }
+    }
+  }
+
+  /**
+   * Resolve verification key by kid, refetching the JWKS document when the
+   * cached copy is stale or the kid is unknown (key rotation)
+   */
+  private async getKey(kid?: string): Promise<{ jwk: Jwk; key: KeyObject } | undefined> {
+    const options = this.getOptions();
+    const now = Date.now();
+    const age = now - this.fetchedAt;
+
+    if (age > options.cacheTtlMs || (!this.findKey(kid) && age > options.refreshCooldownMs)) {
+      // After a failed fetch, wait out the cooldown rather than refetching on every verification
+      if (now - this.failedAt > options.refreshCooldownMs) {
+        await this.refreshKeys();
+      } else if (this.keys.size === 0) {
+        throw new ServiceUnavailableException('Auth service unavailable');
+      }
+    }
+
+    return this.findKey(kid);
+  }
+
+  private findKey(kid?: string): { jwk: Jwk; key: KeyObject } | undefined {
+    if (kid) {
+      return this.keys.get(kid);
+    }
+    // Tokens without kid are only accepted when the JWKS holds a single key
+    return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+  }
+
+  private async refreshKeys(): Promise<void> {
+    // Share one in-flight fetch between concurrent verifications
+    if (!this.pendingFetch) {
+      this.pendingFetch = this.fetchKeys().finally(() => {
+        this.pendingFetch = undefined;
+      });
+    }
+    return this.pendingFetch;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const options = this.getOptions();
+    try {
+      const response = await firstValueFrom(
+        this.httpService
+          .get<{ keys?: Jwk[] }>(options.uri, { timeout: this.httpTimeoutMs })
+          .pipe(timeout(this.httpTimeoutMs)),
+      );
+
+      const keys = new Map<string, { jwk: Jwk; key: KeyObject }>();
+      for (const jwk of response.data?.keys || []) {
+        if (jwk.use && jwk.use !== 'sig') {
+          continue;
+        }
+        try {
+          keys.set(jwk.kid || '', { jwk, key: createPublicKey({ key: jwk, format: 'jwk' }) });
+        } catch (error) {
+          this.logger.warn(`Skipping unusable JWK kid=${jwk.kid}`, {
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      this.keys = keys;
+      this.fetchedAt = Date.now();
+      this.logger.debug(`Loaded ${keys.size} key(s) from JWKS`);
+    } catch (error) {
+      this.failedAt = Date.now();
+      const axiosErr = error as Partial<AxiosError>;
+      this.logger.error('Error fetching JWKS', {
+        error: axiosErr?.message || (error instanceof Error ? error.message : 'Unknown error'),
+        status: axiosErr?.response?.status,
+      });
+      // Keep serving previously loaded keys; fail only if there are none
+      if (this.keys.size === 0) {
+        throw new ServiceUnavailableException('Auth service unavailable');
+      }
+    }
+  }
+
+  private getOptions(): ResolvedJwksOptions {
+    if (!this.options) {
+      throw new Error('JWKS options are required for jwks and hybrid verification modes');
+    }
+    return this.options;
+  }
+}
@@ -0,0 +1,158 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  Optional,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { performance } from 'perf_hooks';
+import { AUTH_MODULE_OPTIONS, FAIL_CLOSED_KEY, OWNERSHIP_KEY } from './auth.constants';
+import { ResolvedAuthOptions, resolveAuthOptions } from './auth.options';
+import { activateOnce, getRequest } from './execution-context';
+import { applyRetryAfter } from './auth.exceptions';
+import { readPath, resolveAuthorizationContext } from './authorization-context';
+import { AuthValidatorService } from './auth-validator.service';
+import { AuditRecorder, AuthAuditService, DecisionSourceTracker } from './auth-audit';
+import { AuthTracingService } from './auth-tracing';
+import type { AuthModuleOptions, OwnershipOptions, ResourceLoader, User } from './types';
+
+function isOwner(owner: unknown, sub: string): boolean {
+  if (Array.isArray(owner)) {
+    return owner.some((value) => isOwner(value, sub));
+  }
+  return owner !== undefined && owner !== null && String(owner) === sub;
+}
+
+@Injectable()
+export class OwnershipGuard implements CanActivate {
+  private readonly logger = new Logger(OwnershipGuard.name);
+  private readonly options: ResolvedAuthOptions;
+
+  constructor(
+    private reflector: Reflector,
+    private moduleRef: ModuleRef,
+    private authValidator: AuthValidatorService,
+    @Optional() @Inject(AUTH_MODULE_OPTIONS) options?: AuthModuleOptions,
+    @Optional() private audit?: AuthAuditService,
+    @Optional() private tracing?: AuthTracingService,
+  ) {
+    this.options = resolveAuthOptions(options);
+  }
+
+  canActivate(context: ExecutionContext): boolean | Promise<boolean> {
+    return activateOnce(context, 'ownership', () =>
+      this.tracing ? this.tracing.guard('ownership', () => this.authorize(context)) : this.authorize(context));
+  }
+
+  private async authorize(context: ExecutionContext): Promise<boolean> {
+    const startedAt = performance.now();
+    const ownership = this.reflector.getAllAndOverride<OwnershipOptions | undefined>(OWNERSHIP_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!ownership) {
+      return true; // No ownership required
+    }
+
+    const request = getRequest<Request>(context);
+    const user = request.user as User;
+    const { loader, ownerField = 'ownerId', param = 'id', id: idSource, bypassPermissions = [] } = ownership;
+    const required = { ownerField, permissions: bypassPermissions, match: 'any' as const };
+    const record: AuditRecorder = (entry) =>
+      this.audit?.record(context, { check: 'ownership', startedAt, user, required, ...entry });
+
+    if (!user || !user.sub) {
+      record({ outcome: 'deny', reason: 'missing_user' });
+      this.logger.error('User not found in request');
+      throw new ForbiddenException('Access denied');
+    }
+
+    const rawId = idSource ? await idSource(request, context) : request.params?.[param];
+    if (rawId === undefined || rawId === null || rawId === '') {
+      record({ outcome: 'deny', reason: 'not_found' });
+      throw new NotFoundException('Resource not found');
+    }
+    const detail = `${loader.name} ${String(rawId)}`;
+
+    // Loaders are ordinary providers, looked up across the application's modules
+    const resourceLoader = this.moduleRef.get<ResourceLoader>(loader, { strict: false });
+    const resource = await resourceLoader.load(String(rawId), request);
+    if (resource === undefined || resource === null) {
+      record({ outcome: 'deny', reason: 'not_found', detail });
+      throw new NotFoundException('Resource not found');
+    }
+
+    // Hand the resource to the handler through @CurrentResource()
+    request.resource = resource;
+
+    if (isOwner(readPath(resource, ownerField), user.sub)) {
+      record({ outcome: 'allow', reason: 'owner', detail, source: 'local' });
+      return true;
+    }
+
+    if (bypassPermissions.length > 0 && await this.hasBypassPermission(context, request, user, bypassPermissions, record, detail)) {
+      return true;
+    }
+
+    record({ outcome: 'deny', reason: 'denied', detail, context: request.authContext });
+    this.logger.warn(`User ${user.sub} does not own ${detail}`);
+    throw new ForbiddenException('Access denied');
+  }
+
+  private async hasBypassPermission(
+    context: ExecutionContext,
+    request: Request,
+    user: User,
+    permissions: string[],
+    record: AuditRecorder,
+    detail: string,
+  ): Promise<boolean> {
+    const authContext = await resolveAuthorizationContext(context, request, this.reflector, this.options)
+      .catch((error: unknown) => {
+        record({ outcome: 'deny', reason: 'missing_context', detail });
+        throw error;
+      });
+    request.authContext = authContext;
+
+    const failClosed = this.reflector.getAllAndOverride<boolean>(FAIL_CLOSED_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    const tracker = new DecisionSourceTracker();
+    try {
+      const allowed = await this.authValidator.checkPermission(
+        user,
+        permissions,
+        'any',
+        authContext,
+        { allowStale: !failClosed, onSource: tracker.onSource },
+      );
+      if (allowed) {
+        record({ outcome: 'allow', reason: 'granted', detail, context: authContext, source: tracker.source });
+      }
+      return allowed;
+    } catch (error) {
+      const reason = error instanceof ServiceUnavailableException ? 'service_unavailable' : 'error';
+      record({ outcome: 'error', reason, detail, context: authContext, source: tracker.source });
+      if (error instanceof ServiceUnavailableException) {
+        // Bubble up 503 per requirements
+        applyRetryAfter(context, error);
+        throw error;
+      }
+      this.logger.error(`Error checking bypass permissions for user ${user.sub}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        permissions,
+        orgId: authContext.orgId,
+      });
+      return false;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { OPTIONAL_AUTH_KEY } from './auth.constants';
+import { getRequest } from './execution-context';
+import { resolveInvocationContext } from './authorization-context';
+import type { AuthorizationContext, User } from './types';
+
+const reflector = new Reflector();
+
+/**
+ * Validated user of the current request, or undefined on @OptionalAuth() routes
+ * Throws when AuthGuard did not run, which is a wiring mistake rather than a client error
+ */
+function requireUser(decorator: string, context: ExecutionContext): User | undefined {
+  const request = getRequest<{ user?: User }>(context);
+  if (request?.user) {
+    return request.user;
+  }
+  if (reflector.getAllAndOverride<boolean>(OPTIONAL_AUTH_KEY, [context.getHandler(), context.getClass()])) {
+    return undefined;
+  }
+  throw new Error(
+    `@${decorator}() found no authenticated user on ${context.getClass().name}.${context.getHandler().name}; `
+    + 'apply @Auth(), @OptionalAuth() or register AuthGuard globally',
+  );
+}
+
+/**
+ * Inject the validated User, or one of its properties by (dot-separated) path
+ * @example getProfile(@CurrentUser() user: User, @CurrentUser('sub') userId: string)
+ */
+export const CurrentUser = createParamDecorator(
+  (path: keyof User | string | undefined, context: ExecutionContext) => {
+    const user = requireUser('CurrentUser', context);
+    if (!user || !path) {
+      return user;
+    }
+    return String(path).split('.').reduce<unknown>(
+      (value, key) => (value === null || value === undefined ? undefined : (value as Record<string, unknown>)[key]),
+      user,
+    );
+  },
+);
+
+/**
+ * Inject the access token the current user was authenticated with
+ */
+export const AccessToken = createParamDecorator(
+  (_data: unknown, context: ExecutionContext) => requireUser('AccessToken', context)?.accessToken,
+);
+
+/**
+ * Inject the org/workspace/object context of the request, resolved on every invocation through
+ * @AuthzContext(), contextMapping and the headers configured for AuthGuard
+ */
+export const AuthContext = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): Promise<Partial<AuthorizationContext>> =>
+    resolveInvocationContext(context, getRequest<Request>(context), reflector),
+);
+
+/**
+ * Inject the resource loaded by @RequireOwnership()
+ * @example update(@CurrentResource() order: Order)
+ */
+export const CurrentResource = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): unknown => getRequest<{ resource?: unknown }>(context)?.resource,
+);
@@ -0,0 +1,40 @@
+import type { MatchMode } from './types';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compile a granted permission into a matcher; segments are separated by '.' or ':'
+ * - a trailing * matches one or more segments: user.* grants user.read and user.profile.update
+ * - any other * matches exactly one segment: *:read grants doc:read but not doc:page:read
+ */
+function compile(granted: string): RegExp {
+  const parts = granted.split(/([.:])/);
+  const source = parts
+    .map((part, index) => {
+      if (part !== '*') {
+        return escapeRegExp(part);
+      }
+      return index === parts.length - 1 ? '.+' : '[^.:]+';
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a granted permission (possibly a wildcard) covers a required permission
+ */
+export function matchesPermission(granted: string, required: string): boolean {
+  return granted === required || (granted.includes('*') && compile(granted).test(required));
+}
+
+/**
+ * Check granted permissions against required permissions with wildcard matching
+ * - all: every required permission must be granted
+ * - any: at least one required permission must be granted
+ */
+export function hasPermissions(granted: string[], required: string[], match: MatchMode): boolean {
+  const isGranted = (permission: string) => granted.some((grant) => matchesPermission(grant, permission));
+  return match === 'any' ? required.some(isGranted) : required.every(isGranted);
+}
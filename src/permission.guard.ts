@@ -1,91 +1,166 @@
 import {
-  BadRequestException,
   CanActivate,
   ExecutionContext,
   ForbiddenException,
+  Inject,
   Injectable,
   Logger,
+  Optional,
   ServiceUnavailableException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { Request } from 'express';
+import { performance } from 'perf_hooks';
+import { AUTH_MODULE_OPTIONS, FAIL_CLOSED_KEY, PERMISSIONS_KEY, PERMISSIONS_MATCH_KEY } from './auth.constants';
+import { ResolvedAuthOptions, resolveAuthOptions } from './auth.options';
+import { activateOnce, getRequest } from './execution-context';
+import { applyRetryAfter } from './auth.exceptions';
+import { isContextFree, resolveAuthorizationContext } from './authorization-context';
+import { getRequirements, Requirement } from './authorization-metadata';
+import { hasPermissions } from './permission-matcher';
 import { AuthValidatorService } from './auth-validator.service';
-import { User } from './types';
+import { AuditRecorder, AuthAuditService, DecisionSourceTracker } from './auth-audit';
+import { AuthTracingService } from './auth-tracing';
+import type { AuthModuleOptions, User } from './types';
 
 @Injectable()
 export class PermissionGuard implements CanActivate {
   private readonly logger = new Logger(PermissionGuard.name);
+  private readonly options: ResolvedAuthOptions;
 
   constructor(
     private reflector: Reflector,
     private authValidator: AuthValidatorService,
-  ) { }
+    @Optional() @Inject(AUTH_MODULE_OPTIONS) options?: AuthModuleOptions,
+    @Optional() private audit?: AuthAuditService,
+    @Optional() private tracing?: AuthTracingService,
+  ) {
+    this.options = resolveAuthOptions(options);
+  }
 
-  async canActivate(context: ExecutionContext): Promise<boolean> {
-    const requiredPermissions = this.reflector.getAllAndOverride<string[] | string>('permissions', [
-      context.getHandler(),
-      context.getClass(),
-    ]);
-    const matchMode = this.reflector.getAllAndOverride<'any' | 'all'>('match', [
-      context.getHandler(),
-      context.getClass(),
-    ]) || 'all';
+  canActivate(context: ExecutionContext): boolean | Promise<boolean> {
+    return activateOnce(context, 'permission', () =>
+      this.tracing ? this.tracing.guard('permission', () => this.authorize(context)) : this.authorize(context));
+  }
 
-    const permissions: string[] | undefined = Array.isArray(requiredPermissions)
-      ? requiredPermissions
-      : typeof requiredPermissions === 'string'
-        ? [requiredPermissions]
-        : undefined;
+  private async authorize(context: ExecutionContext): Promise<boolean> {
+    const startedAt = performance.now();
+    const requirements = getRequirements(
+      this.reflector,
+      context,
+      PERMISSIONS_KEY,
+      PERMISSIONS_MATCH_KEY,
+      this.options.metadataPrecedence,
+    );
 
-    if (!permissions || permissions.length === 0) {
+    if (requirements.length === 0) {
       return true; // No permission required
     }
 
-    const request = context.switchToHttp().getRequest<Request>();
+    const request = getRequest<Request>(context);
     const user = request.user as User;
+    const record: AuditRecorder = (entry) =>
+      this.audit?.record(context, { check: 'permission', startedAt, user, ...entry });
 
     if (!user || !user.sub) {
+      record({ outcome: 'deny', reason: 'missing_user' });
       this.logger.error('User not found in request');
       throw new ForbiddenException('Access denied');
     }
 
-    // Extract context from headers
-    const orgId = String(request.headers['x-org-id'] || '').trim();
-    const workspaceId = request.headers['x-workspace-id'] ? String(request.headers['x-workspace-id']).trim() : undefined;
-    const objectId = request.headers['x-object-id'] ? String(request.headers['x-object-id']).trim() : undefined;
-
-    if (!orgId) {
-      throw new BadRequestException('Missing x-org-id header');
+    // Token permissions decide checks without org/workspace/object context;
+    // anything else is inconclusive locally and goes to core-service
+    if (
+      this.options.permissionEvaluation === 'local'
+      && user.permissions
+      && await isContextFree(context, request, this.reflector, this.options)
+    ) {
+      return this.evaluateLocally(user, user.permissions, requirements, record);
     }
 
-    try {
-      const hasPermission = await this.authValidator.checkPermission(
-        user,
-        permissions,
-        matchMode,
-        { orgId, workspaceId, objectId },
-      );
+    // Resolve context from the @AuthzContext() mapping, falling back to headers
+    const authContext = await resolveAuthorizationContext(context, request, this.reflector, this.options)
+      .catch((error: unknown) => {
+        record({ outcome: 'deny', reason: 'missing_context' });
+        throw error;
+      });
+    const { orgId, workspaceId, objectId } = authContext;
+
+    // Expose the resolved context to @AuthContext()
+    request.authContext = authContext;
+
+    const failClosed = this.reflector.getAllAndOverride<boolean>(FAIL_CLOSED_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
 
-      if (!hasPermission) {
-        this.logger.warn(`User ${user.sub} lacks required permissions ${permissions.join(', ')} (match=${matchMode}) in org=${orgId}`);
+    // Every requirement (one per metadata level when merging) must be satisfied
+    for (const { values: permissions, match: matchMode } of requirements) {
+      const tracker = new DecisionSourceTracker();
+      const audited = { required: { permissions, match: matchMode }, context: authContext };
+      try {
+        const hasPermission = await this.authValidator.checkPermission(
+          user,
+          permissions,
+          matchMode,
+          authContext,
+          { allowStale: !failClosed, onSource: tracker.onSource },
+        );
+
+        record({
+          ...audited,
+          outcome: hasPermission ? 'allow' : 'deny',
+          reason: hasPermission ? 'granted' : 'denied',
+          source: tracker.source,
+        });
+        if (!hasPermission) {
+          this.logger.warn(`User ${user.sub} lacks required permissions ${permissions.join(', ')} (match=${matchMode}) in org=${orgId}`);
+          throw new ForbiddenException('Access denied');
+        }
+      } catch (error) {
+        if (!(error instanceof ForbiddenException)) {
+          const reason = error instanceof ServiceUnavailableException ? 'service_unavailable' : 'error';
+          record({ ...audited, outcome: 'error', reason, source: tracker.source });
+        }
+        if (error instanceof ServiceUnavailableException) {
+          // Bubble up 503 per requirements
+          applyRetryAfter(context, error);
+          throw error;
+        }
+        this.logger.error(`Error checking permission for user ${user.sub}`, {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          permissions,
+          matchMode,
+          orgId,
+          workspaceId,
+          objectId,
+        });
         throw new ForbiddenException('Access denied');
       }
+    }
 
-      return true;
-    } catch (error) {
-      if (error instanceof ServiceUnavailableException) {
-        // Bubble up 503 per requirements
-        throw error;
-      }
-      this.logger.error(`Error checking permission for user ${user.sub}`, {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        permissions,
-        matchMode,
-        orgId,
-        workspaceId,
-        objectId,
+    return true;
+  }
+
+  private evaluateLocally(
+    user: User,
+    granted: string[],
+    requirements: Requirement[],
+    record: AuditRecorder,
+  ): boolean {
+    for (const { values: permissions, match: matchMode } of requirements) {
+      const allowed = hasPermissions(granted, permissions, matchMode);
+      record({
+        outcome: allowed ? 'allow' : 'deny',
+        reason: allowed ? 'granted' : 'denied',
+        required: { permissions, match: matchMode },
+        source: 'local',
       });
-      throw new ForbiddenException('Access denied');
+      if (!allowed) {
+        this.logger.warn(`User ${user.sub} lacks required permissions ${permissions.join(', ')} (match=${matchMode}) in token claims`);
+        throw new ForbiddenException('Access denied');
+      }
     }
+    return true;
   }
-}
\ No newline at end of file
+}
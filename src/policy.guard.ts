@@ -0,0 +1,173 @@
+import {
+  BadRequestException,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  HttpException,
+  Inject,
+  Injectable,
+  Logger,
+  Optional,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { performance } from 'perf_hooks';
+import { AUTH_MODULE_OPTIONS, FAIL_CLOSED_KEY, POLICY_KEY } from './auth.constants';
+import { ResolvedAuthOptions, resolveAuthOptions } from './auth.options';
+import { activateOnce, getRequest } from './execution-context';
+import { applyRetryAfter } from './auth.exceptions';
+import { resolveAuthorizationContext, resolveOptionalAuthorizationContext } from './authorization-context';
+import { collectMetadata } from './authorization-metadata';
+import { AuthValidatorService } from './auth-validator.service';
+import { AuditRecorder, AuthAuditService, DecisionSourceTracker } from './auth-audit';
+import { AuthTracingService } from './auth-tracing';
+import { PolicyRegistry } from './policy';
+import type {
+  AuthDecisionSource,
+  AuthModuleOptions,
+  AuthorizationContext,
+  PolicyChecks,
+  PolicyContext,
+  PolicyOptions,
+  User,
+} from './types';
+
+export interface PolicyMetadata extends PolicyOptions {
+  name: string;
+}
+
+function toList(value: string[] | string): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+@Injectable()
+export class PolicyGuard implements CanActivate {
+  private readonly logger = new Logger(PolicyGuard.name);
+  private readonly options: ResolvedAuthOptions;
+
+  constructor(
+    private reflector: Reflector,
+    private authValidator: AuthValidatorService,
+    private policies: PolicyRegistry,
+    @Optional() @Inject(AUTH_MODULE_OPTIONS) options?: AuthModuleOptions,
+    @Optional() private audit?: AuthAuditService,
+    @Optional() private tracing?: AuthTracingService,
+  ) {
+    this.options = resolveAuthOptions(options);
+  }
+
+  canActivate(context: ExecutionContext): boolean | Promise<boolean> {
+    return activateOnce(context, 'policy', () =>
+      this.tracing ? this.tracing.guard('policy', () => this.authorize(context)) : this.authorize(context));
+  }
+
+  private async authorize(context: ExecutionContext): Promise<boolean> {
+    const startedAt = performance.now();
+    const entries = collectMetadata<PolicyMetadata[]>(
+      context,
+      (target) => this.reflector.get<PolicyMetadata[]>(POLICY_KEY, target),
+      this.options.metadataPrecedence,
+    ).flat();
+
+    if (entries.length === 0) {
+      return true; // No policy required
+    }
+
+    const request = getRequest<Request>(context);
+    const user = request.user as User;
+    const record: AuditRecorder = (entry) =>
+      this.audit?.record(context, { check: 'policy', startedAt, user, ...entry });
+
+    if (!user || !user.sub) {
+      record({ outcome: 'deny', reason: 'missing_user' });
+      this.logger.error('User not found in request');
+      throw new ForbiddenException('Access denied');
+    }
+
+    // Org/workspace/object values are optional for policies; remote checks require an orgId
+    const resolved = await resolveOptionalAuthorizationContext(context, request, this.reflector, this.options);
+    if (resolved.orgId) {
+      request.authContext = resolved as AuthorizationContext;
+    }
+
+    const now = new Date();
+    const policyContext: PolicyContext = { ...resolved, now: now.getTime(), hour: now.getUTCHours(), weekday: now.getUTCDay() };
+    // Policies are evaluated locally; remote checks they make upgrade the source
+    let tracker = new DecisionSourceTracker();
+    const checks = this.createChecks(context, request, user, (source) => tracker.onSource(source));
+    request.policyDecisions = [];
+
+    for (const entry of entries) {
+      tracker = new DecisionSourceTracker();
+      tracker.onSource('local');
+      const audited = { required: { policy: entry.name }, context: resolved };
+      try {
+        const resource = entry.resource ? await entry.resource(request, context) : undefined;
+        const decision = await this.policies.evaluate(entry.name, {
+          user,
+          resource,
+          action: entry.action || entry.name,
+          context: policyContext,
+          checks,
+        });
+        request.policyDecisions.push(decision);
+        record({
+          ...audited,
+          outcome: decision.allowed ? 'allow' : 'deny',
+          reason: decision.allowed ? 'granted' : 'denied',
+          detail: decision.rule ? `${decision.rule}: ${decision.reason}` : decision.reason,
+          source: tracker.source,
+        });
+
+        if (!decision.allowed) {
+          this.logger.warn(`Policy ${entry.name} denied user ${user.sub}: ${decision.reason}`);
+          throw new ForbiddenException('Access denied');
+        }
+      } catch (error) {
+        if (!(error instanceof ForbiddenException)) {
+          const reason = error instanceof ServiceUnavailableException
+            ? 'service_unavailable'
+            : error instanceof BadRequestException ? 'missing_context' : 'error';
+          record({ ...audited, outcome: 'error', reason, source: tracker.source });
+        }
+        if (error instanceof ServiceUnavailableException) {
+          // Bubble up 503 per requirements
+          applyRetryAfter(context, error);
+          throw error;
+        }
+        if (error instanceof HttpException) {
+          throw error;
+        }
+        this.logger.error(`Error evaluating policy ${entry.name} for user ${user.sub}`, {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new ForbiddenException('Access denied');
+      }
+    }
+
+    return true;
+  }
+
+  private createChecks(
+    context: ExecutionContext,
+    request: Request,
+    user: User,
+    onSource: (source: AuthDecisionSource) => void,
+  ): PolicyChecks {
+    let authContext: Promise<AuthorizationContext> | undefined;
+    const requireContext = () =>
+      (authContext ??= resolveAuthorizationContext(context, request, this.reflector, this.options));
+    const allowStale = !this.reflector.getAllAndOverride<boolean>(FAIL_CLOSED_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    return {
+      hasPermission: async (permissions, match = 'all') =>
+        this.authValidator.checkPermission(user, toList(permissions), match, await requireContext(), { allowStale, onSource }),
+      hasRole: async (roles, match = 'all') =>
+        this.authValidator.checkRole(user, toList(roles), match, await requireContext(), { allowStale, onSource }),
+    };
+  }
+}
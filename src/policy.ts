@@ -0,0 +1,190 @@
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { AUTH_MODULE_OPTIONS } from './auth.constants';
+import { resolveAuthOptions } from './auth.options';
+import { readPath } from './authorization-context';
+import type {
+  AuthModuleOptions,
+  JsonPolicy,
+  PolicyCondition,
+  PolicyDecision,
+  PolicyDefinition,
+  PolicyInput,
+  PolicyOperand,
+} from './types';
+
+type ComparisonOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in';
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in'];
+const OPERATORS = ['all', 'any', 'not', 'exists', 'hasPermission', 'hasRole', ...COMPARISON_OPERATORS];
+
+function isVar(operand: PolicyOperand): operand is { var: string } {
+  return typeof operand === 'object' && operand !== null && !Array.isArray(operand);
+}
+
+function resolveOperand(operand: PolicyOperand, input: PolicyInput): unknown {
+  return isVar(operand) ? readPath(input, operand.var) : operand;
+}
+
+function compare(operator: ComparisonOperator, left: unknown, right: unknown): boolean {
+  switch (operator) {
+    case 'eq':
+      return left === right;
+    case 'ne':
+      return left !== right;
+    case 'in':
+      return Array.isArray(right) && right.includes(left);
+    default: {
+      // Ordering only between two numbers or two strings
+      const comparable = (typeof left === 'number' && typeof right === 'number')
+        || (typeof left === 'string' && typeof right === 'string');
+      if (!comparable) {
+        return false;
+      }
+      const [a, b] = [left as number | string, right as number | string];
+      return operator === 'gt' ? a > b : operator === 'gte' ? a >= b : operator === 'lt' ? a < b : a <= b;
+    }
+  }
+}
+
+async function evaluateCondition(condition: PolicyCondition, input: PolicyInput): Promise<boolean> {
+  if ('all' in condition) {
+    for (const child of condition.all) {
+      if (!(await evaluateCondition(child, input))) {
+        return false;
+      }
+    }
+    return true;
+  }
+  if ('any' in condition) {
+    for (const child of condition.any) {
+      if (await evaluateCondition(child, input)) {
+        return true;
+      }
+    }
+    return false;
+  }
+  if ('not' in condition) {
+    return !(await evaluateCondition(condition.not, input));
+  }
+  if ('exists' in condition) {
+    const value = resolveOperand(condition.exists, input);
+    return value !== undefined && value !== null;
+  }
+  if ('hasPermission' in condition) {
+    return input.checks.hasPermission(condition.hasPermission, 'all');
+  }
+  if ('hasRole' in condition) {
+    return input.checks.hasRole(condition.hasRole, 'all');
+  }
+
+  const [operator, operands] = Object.entries(condition)[0] as [ComparisonOperator, [PolicyOperand, PolicyOperand]];
+  return compare(operator, resolveOperand(operands[0], input), resolveOperand(operands[1], input));
+}
+
+function validateCondition(condition: unknown, path: string): void {
+  const keys = condition && typeof condition === 'object' ? Object.keys(condition) : [];
+  if (keys.length !== 1 || !OPERATORS.includes(keys[0])) {
+    throw new Error(`${path}: expected exactly one of ${OPERATORS.join(', ')}`);
+  }
+
+  const operator = keys[0];
+  const value = (condition as Record<string, unknown>)[operator];
+  if (operator === 'all' || operator === 'any') {
+    if (!Array.isArray(value)) {
+      throw new Error(`${path}.${operator}: expected a list of conditions`);
+    }
+    value.forEach((child, index) => validateCondition(child, `${path}.${operator}[${index}]`));
+  } else if (operator === 'not') {
+    validateCondition(value, `${path}.not`);
+  } else if (COMPARISON_OPERATORS.includes(operator as ComparisonOperator)) {
+    if (!Array.isArray(value) || value.length !== 2) {
+      throw new Error(`${path}.${operator}: expected two operands`);
+    }
+  }
+}
+
+function validatePolicy(name: string, policy: JsonPolicy): void {
+  if (!Array.isArray(policy?.rules)) {
+    throw new Error(`Invalid policy ${name}: expected a rules list`);
+  }
+  const ids = new Set<string>();
+  policy.rules.forEach((rule, index) => {
+    const path = `rules[${index}]`;
+    if (!rule.id || ids.has(rule.id)) {
+      throw new Error(`Invalid policy ${name}: ${path} needs a unique id`);
+    }
+    if (rule.effect !== 'allow' && rule.effect !== 'deny') {
+      throw new Error(`Invalid policy ${name}: ${path} effect must be allow or deny`);
+    }
+    ids.add(rule.id);
+    try {
+      validateCondition(rule.when, `${path}.when`);
+    } catch (error) {
+      throw new Error(`Invalid policy ${name}: ${(error as Error).message}`);
+    }
+  });
+}
+
+/**
+ * Evaluate a declarative policy: deny rules are checked first, then allow rules,
+ * each in declaration order; the first matching rule decides
+ */
+async function evaluateJsonPolicy(name: string, policy: JsonPolicy, input: PolicyInput): Promise<PolicyDecision> {
+  for (const effect of ['deny', 'allow'] as const) {
+    for (const rule of policy.rules.filter((candidate) => candidate.effect === effect)) {
+      if (await evaluateCondition(rule.when, input)) {
+        return { policy: name, allowed: effect === 'allow', rule: rule.id, reason: `Rule ${rule.id} matched (${effect})` };
+      }
+    }
+  }
+  return { policy: name, allowed: false, reason: 'No rule matched' };
+}
+
+/**
+ * Named authorization policies evaluated by @Policy() and PolicyGuard
+ * Policies are code (PolicyFunction) or declarative rules (JsonPolicy)
+ */
+@Injectable()
+export class PolicyRegistry {
+  private readonly policies = new Map<string, PolicyDefinition>();
+
+  constructor(@Optional() @Inject(AUTH_MODULE_OPTIONS) options?: AuthModuleOptions) {
+    for (const [name, policy] of Object.entries(resolveAuthOptions(options).policies)) {
+      this.register(name, policy);
+    }
+  }
+
+  /**
+   * Register or replace a policy
+   * @throws Error when a declarative policy is malformed
+   */
+  register(name: string, policy: PolicyDefinition): void {
+    if (typeof policy !== 'function') {
+      validatePolicy(name, policy);
+    }
+    this.policies.set(name, policy);
+  }
+
+  has(name: string): boolean {
+    return this.policies.has(name);
+  }
+
+  /**
+   * Evaluate a policy; unknown policies are denied
+   * @returns The decision with the rule or reason that produced it
+   */
+  async evaluate(name: string, input: PolicyInput): Promise<PolicyDecision> {
+    const policy = this.policies.get(name);
+    if (!policy) {
+      return { policy: name, allowed: false, reason: `Unknown policy ${name}` };
+    }
+    if (typeof policy !== 'function') {
+      return evaluateJsonPolicy(name, policy, input);
+    }
+
+    const result = await policy(input);
+    const allowed = typeof result === 'boolean' ? result : result.allowed;
+    const reason = (typeof result === 'object' && result.reason) || (allowed ? 'Allowed by policy function' : 'Denied by policy function');
+    return { policy: name, allowed, reason };
+  }
+}
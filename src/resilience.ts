@@ -0,0 +1,126 @@
+import { EventEmitter } from 'events';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStateChange {
+  from: CircuitState;
+  to: CircuitState;
+}
+
+/**
+ * Raised instead of calling upstream while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(readonly retryAfterMs: number) {
+    super('Circuit breaker is open');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Consecutive-failure circuit breaker.
+ * Emits 'stateChange' ({ from, to }) plus 'open', 'half-open' and 'close'.
+ */
+export class CircuitBreaker extends EventEmitter {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly failureThreshold = 5,
+    private readonly resetTimeoutMs = 30_000,
+  ) {
+    super();
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Run fn unless the circuit is open; while half-open only one trial call passes
+   * @param fn - Upstream call
+   * @param isFailure - Whether an error counts against the circuit (default: all errors)
+   */
+  async execute<T>(fn: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
+    if (this.state === 'open') {
+      const elapsed = Date.now() - this.openedAt;
+      if (elapsed < this.resetTimeoutMs) {
+        throw new CircuitOpenError(this.resetTimeoutMs - elapsed);
+      }
+      this.transition('half-open');
+    }
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(this.resetTimeoutMs);
+      }
+      this.trialInFlight = true;
+    }
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.onFailure();
+      } else {
+        this.onSuccess();
+      }
+      throw error;
+    } finally {
+      this.trialInFlight = false;
+    }
+  }
+
+  private onSuccess(): void {
+    this.failures = 0;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  private onFailure(): void {
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      if (this.state !== 'open') {
+        this.transition('open');
+      }
+    }
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    this.state = to;
+    this.emit('stateChange', { from, to } as CircuitStateChange);
+    this.emit(to === 'closed' ? 'close' : to);
+  }
+}
+
+export interface RetryOptions {
+  /** Additional attempts after the first one */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Whether an error is transient and worth retrying */
+  shouldRetry: (error: unknown) => boolean;
+}
+
+/**
+ * Retry fn with full-jitter exponential backoff
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.retries || !options.shouldRetry(error)) {
+        throw error;
+      }
+      const cap = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * cap));
+    }
+  }
+}
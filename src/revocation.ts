@@ -0,0 +1,22 @@
+import { EventEmitter } from 'events';
+import type { RevocationEvent, RevocationTransport } from './types';
+
+const REVOCATION_EVENT = 'revocation';
+
+/**
+ * In-process RevocationTransport; share one instance between AuthModule
+ * registrations, or replace it with a pub/sub backed transport across processes
+ */
+export class InMemoryRevocationTransport implements RevocationTransport {
+  private readonly emitter = new EventEmitter();
+
+  publish(event: RevocationEvent): void {
+    this.emitter.emit(REVOCATION_EVENT, event);
+  }
+
+  subscribe(listener: (event: RevocationEvent) => void | Promise<void>): () => void {
+    const handler = (event: RevocationEvent) => void listener(event);
+    this.emitter.on(REVOCATION_EVENT, handler);
+    return () => this.emitter.off(REVOCATION_EVENT, handler);
+  }
+}
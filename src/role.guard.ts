@@ -1,91 +1,133 @@
 import {
-  BadRequestException,
   CanActivate,
   ExecutionContext,
   ForbiddenException,
+  Inject,
   Injectable,
   Logger,
+  Optional,
   ServiceUnavailableException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { Request } from 'express';
+import { performance } from 'perf_hooks';
+import { AUTH_MODULE_OPTIONS, FAIL_CLOSED_KEY, ROLES_KEY, ROLES_MATCH_KEY } from './auth.constants';
+import { ResolvedAuthOptions, resolveAuthOptions } from './auth.options';
+import { activateOnce, getRequest } from './execution-context';
+import { applyRetryAfter } from './auth.exceptions';
+import { resolveAuthorizationContext } from './authorization-context';
+import { getRequirements } from './authorization-metadata';
 import { AuthValidatorService } from './auth-validator.service';
-import { User } from './types';
+import { AuditRecorder, AuthAuditService, DecisionSourceTracker } from './auth-audit';
+import { AuthTracingService } from './auth-tracing';
+import type { AuthModuleOptions, User } from './types';
 
 @Injectable()
 export class RoleGuard implements CanActivate {
   private readonly logger = new Logger(RoleGuard.name);
+  private readonly options: ResolvedAuthOptions;
 
   constructor(
     private reflector: Reflector,
     private authValidator: AuthValidatorService,
-  ) { }
+    @Optional() @Inject(AUTH_MODULE_OPTIONS) options?: AuthModuleOptions,
+    @Optional() private audit?: AuthAuditService,
+    @Optional() private tracing?: AuthTracingService,
+  ) {
+    this.options = resolveAuthOptions(options);
+  }
 
-  async canActivate(context: ExecutionContext): Promise<boolean> {
-    const requiredRoles = this.reflector.getAllAndOverride<string[] | string>('roles', [
-      context.getHandler(),
-      context.getClass(),
-    ]);
-    const matchMode = this.reflector.getAllAndOverride<'any' | 'all'>('match', [
-      context.getHandler(),
-      context.getClass(),
-    ]) || 'all';
+  canActivate(context: ExecutionContext): boolean | Promise<boolean> {
+    return activateOnce(context, 'role', () =>
+      this.tracing ? this.tracing.guard('role', () => this.authorize(context)) : this.authorize(context));
+  }
 
-    const roles: string[] | undefined = Array.isArray(requiredRoles)
-      ? requiredRoles
-      : typeof requiredRoles === 'string'
-        ? [requiredRoles]
-        : undefined;
+  private async authorize(context: ExecutionContext): Promise<boolean> {
+    const startedAt = performance.now();
+    const requirements = getRequirements(
+      this.reflector,
+      context,
+      ROLES_KEY,
+      ROLES_MATCH_KEY,
+      this.options.metadataPrecedence,
+    );
 
-    if (!roles || roles.length === 0) {
+    if (requirements.length === 0) {
       return true; // No role required
     }
 
-    const request = context.switchToHttp().getRequest<Request>();
+    const request = getRequest<Request>(context);
     const user = request.user as User;
+    const record: AuditRecorder = (entry) =>
+      this.audit?.record(context, { check: 'role', startedAt, user, ...entry });
 
     if (!user || !user.sub) {
+      record({ outcome: 'deny', reason: 'missing_user' });
       this.logger.error('User not found in request');
       throw new ForbiddenException('Access denied');
     }
 
-    // Extract context from headers
-    const orgId = String(request.headers['x-org-id'] || '').trim();
-    const workspaceId = request.headers['x-workspace-id'] ? String(request.headers['x-workspace-id']).trim() : undefined;
-    const objectId = request.headers['x-object-id'] ? String(request.headers['x-object-id']).trim() : undefined;
+    // Resolve context from the @AuthzContext() mapping, falling back to headers
+    const authContext = await resolveAuthorizationContext(context, request, this.reflector, this.options)
+      .catch((error: unknown) => {
+        record({ outcome: 'deny', reason: 'missing_context' });
+        throw error;
+      });
+    const { orgId, workspaceId, objectId } = authContext;
 
-    if (!orgId) {
-      throw new BadRequestException('Missing x-org-id header');
-    }
+    // Expose the resolved context to @AuthContext()
+    request.authContext = authContext;
 
-    try {
-      const hasRole = await this.authValidator.checkRole(
-        user,
-        roles,
-        matchMode,
-        { orgId, workspaceId, objectId },
-      );
+    const failClosed = this.reflector.getAllAndOverride<boolean>(FAIL_CLOSED_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
 
-      if (!hasRole) {
-        this.logger.warn(`User ${user.sub} lacks required roles ${roles.join(', ')} (match=${matchMode}) in org=${orgId}`);
-        throw new ForbiddenException('Access denied');
-      }
+    // Every requirement (one per metadata level when merging) must be satisfied
+    for (const { values: roles, match: matchMode } of requirements) {
+      const tracker = new DecisionSourceTracker();
+      const audited = { required: { roles, match: matchMode }, context: authContext };
+      try {
+        const hasRole = await this.authValidator.checkRole(
+          user,
+          roles,
+          matchMode,
+          authContext,
+          { allowStale: !failClosed, onSource: tracker.onSource },
+        );
 
-      return true;
-    } catch (error) {
-      if (error instanceof ServiceUnavailableException) {
-        // Bubble up 503 per requirements
-        throw error;
+        record({
+          ...audited,
+          outcome: hasRole ? 'allow' : 'deny',
+          reason: hasRole ? 'granted' : 'denied',
+          source: tracker.source,
+        });
+        if (!hasRole) {
+          this.logger.warn(`User ${user.sub} lacks required roles ${roles.join(', ')} (match=${matchMode}) in org=${orgId}`);
+          throw new ForbiddenException('Access denied');
+        }
+      } catch (error) {
+        if (!(error instanceof ForbiddenException)) {
+          const reason = error instanceof ServiceUnavailableException ? 'service_unavailable' : 'error';
+          record({ ...audited, outcome: 'error', reason, source: tracker.source });
+        }
+        if (error instanceof ServiceUnavailableException) {
+          // Bubble up 503 per requirements
+          applyRetryAfter(context, error);
+          throw error;
+        }
+        this.logger.error(`Error checking role for user ${user.sub}`, {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          roles,
+          matchMode,
+          orgId,
+          workspaceId,
+          objectId,
+        });
+        throw new ForbiddenException('Access denied');
       }
-      this.logger.error(`Error checking role for user ${user.sub}`, {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        roles,
-        matchMode,
-        orgId,
-        workspaceId,
-        objectId,
-      });
-      throw new ForbiddenException('Access denied');
     }
+
+    return true;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,84 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  Optional,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { performance } from 'perf_hooks';
+import { AUTH_MODULE_OPTIONS, SCOPES_KEY, SCOPES_MATCH_KEY } from './auth.constants';
+import { ResolvedAuthOptions, resolveAuthOptions } from './auth.options';
+import { activateOnce, getRequest } from './execution-context';
+import { getRequirements } from './authorization-metadata';
+import { AuditRecorder, AuthAuditService } from './auth-audit';
+import { AuthTracingService } from './auth-tracing';
+import { hasScopes } from './scopes';
+import type { AuthModuleOptions, User } from './types';
+
+@Injectable()
+export class ScopeGuard implements CanActivate {
+  private readonly logger = new Logger(ScopeGuard.name);
+  private readonly options: ResolvedAuthOptions;
+
+  constructor(
+    private reflector: Reflector,
+    @Optional() @Inject(AUTH_MODULE_OPTIONS) options?: AuthModuleOptions,
+    @Optional() private audit?: AuthAuditService,
+    @Optional() private tracing?: AuthTracingService,
+  ) {
+    this.options = resolveAuthOptions(options);
+  }
+
+  canActivate(context: ExecutionContext): boolean | Promise<boolean> {
+    // Stays synchronous unless traced
+    return activateOnce(context, 'scope', () =>
+      this.tracing?.enabled ? this.tracing.guard('scope', async () => this.authorize(context)) : this.authorize(context));
+  }
+
+  private authorize(context: ExecutionContext): boolean {
+    const startedAt = performance.now();
+    const requirements = getRequirements(
+      this.reflector,
+      context,
+      SCOPES_KEY,
+      SCOPES_MATCH_KEY,
+      this.options.metadataPrecedence,
+    );
+
+    if (requirements.length === 0) {
+      return true; // No scope required
+    }
+
+    const request = getRequest<Request>(context);
+    const user = request.user as User;
+    const record: AuditRecorder = (entry) =>
+      this.audit?.record(context, { check: 'scope', startedAt, user, ...entry });
+
+    if (!user || !user.sub) {
+      record({ outcome: 'deny', reason: 'missing_user' });
+      this.logger.error('User not found in request');
+      throw new ForbiddenException('Access denied');
+    }
+
+    // Scopes come with the token, so every requirement is evaluated locally
+    for (const { values: scopes, match: matchMode } of requirements) {
+      const allowed = hasScopes(user.scopes, scopes, matchMode);
+      record({
+        outcome: allowed ? 'allow' : 'deny',
+        reason: allowed ? 'granted' : 'denied',
+        required: { scopes, match: matchMode },
+        source: 'local',
+      });
+      if (!allowed) {
+        this.logger.warn(`Principal ${user.sub} lacks required scopes ${scopes.join(', ')} (match=${matchMode})`);
+        throw new ForbiddenException('Access denied - Insufficient scope');
+      }
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,77 @@
+import type { IntrospectionResponse, JwtClaims, MatchMode, User } from './types';
+
+/**
+ * Normalize a scope claim: a space-separated string (RFC 6749) or a list
+ * @returns undefined when the value carries no scopes
+ */
+export function parseScopes(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  if (typeof value === 'string') {
+    return value.split(' ').filter(Boolean);
+  }
+  return undefined;
+}
+
+/**
+ * Check granted scopes against required scopes
+ * - all: every required scope must be granted
+ * - any: at least one required scope must be granted
+ */
+export function hasScopes(granted: string[] | undefined, required: string[], match: MatchMode): boolean {
+  const set = new Set(granted ?? []);
+  return match === 'any'
+    ? required.some((scope) => set.has(scope))
+    : required.every((scope) => set.has(scope));
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function optionalAudience(value: unknown): string | string[] | undefined {
+  return typeof value === 'string' || Array.isArray(value) ? value as string | string[] : undefined;
+}
+
+/**
+ * Map the standard (RFC 7662) fields of an introspection or API key verification response
+ */
+export function fromIntrospection(data: IntrospectionResponse): Omit<User, 'accessToken'> {
+  return {
+    sub: data.sub as string,
+    role: data.role,
+    permissions: data.permissions,
+    scopes: parseScopes(data.scopes ?? data.scope),
+    clientId: optionalString(data.client_id),
+    username: optionalString(data.username),
+    tokenType: optionalString(data.token_type),
+    exp: optionalNumber(data.exp),
+    iat: optionalNumber(data.iat),
+    nbf: optionalNumber(data.nbf),
+    aud: optionalAudience(data.aud),
+    iss: optionalString(data.iss),
+    jti: optionalString(data.jti),
+  };
+}
+
+/**
+ * Map the registered claims of a verified JWT; scopes are read from scope or scp
+ * and the client from client_id or azp
+ */
+export function fromJwtClaims(claims: JwtClaims): Omit<User, 'sub' | 'accessToken'> {
+  return {
+    scopes: parseScopes(claims.scope ?? claims.scp),
+    clientId: optionalString(claims.client_id ?? claims.azp),
+    exp: optionalNumber(claims.exp),
+    iat: optionalNumber(claims.iat),
+    nbf: optionalNumber(claims.nbf),
+    aud: optionalAudience(claims.aud),
+    iss: optionalString(claims.iss),
+    jti: optionalString(claims.jti),
+  };
+}
@@ -1,9 +1,17 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger, Optional, UnauthorizedException } from '@nestjs/common';
 import { Request } from 'express';
+import { AUTH_MODULE_OPTIONS } from './auth.constants';
+import { ResolvedAuthOptions, resolveAuthOptions } from './auth.options';
+import type { AuthModuleOptions, ExtractedToken, WsHandshake } from './types';
 
 @Injectable()
 export class TokenExtractorService {
   private readonly logger = new Logger(TokenExtractorService.name);
+  private readonly options: ResolvedAuthOptions;
+
+  constructor(@Optional() @Inject(AUTH_MODULE_OPTIONS) options?: AuthModuleOptions) {
+    this.options = resolveAuthOptions(options);
+  }
 
   /**
    * Extract JWT token from request headers or cookies
@@ -11,24 +19,101 @@ export class TokenExtractorService {
    * @returns JWT token string or undefined if not found
    */
   extractToken(request: Request): string | undefined {
-    let accessToken: string | undefined;
+    return this.runExtractors(request)?.token;
+  }
 
-    // First check Authorization header (for API clients)
-    const authHeader = request.headers['authorization'];
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      accessToken = authHeader.substring(7);
-      this.logger.debug('Using access token from Authorization header');
+  /**
+   * Run the configured extraction chain (tokenExtractors), or extractToken()
+   * when a subclass overrides it: a token the chain also finds keeps the chain's
+   * source (so cookie tokens stay subject to CSRF checks), others are reported as 'custom'
+   * @param request - HTTP request object
+   * @returns Token and the source it was found in, or undefined if not found
+   * @throws UnauthorizedException when extractors find different tokens
+   * and tokenConflictPolicy is 'reject'
+   */
+  extractTokenWithSource(request: Request): ExtractedToken | undefined {
+    if (this.extractToken !== TokenExtractorService.prototype.extractToken) {
+      const token = this.extractToken(request);
+      if (!token) {
+        return undefined;
+      }
+      const fromChain = this.runExtractors(request);
+      return fromChain?.token === token ? fromChain : { token, source: 'custom' };
     }
-    // Fallback to cookies (for browser clients)
-    else if (request.cookies && request.cookies['access_token']) {
-      accessToken = request.cookies['access_token'];
-      this.logger.debug('Using access token from cookies');
+    return this.runExtractors(request);
+  }
+
+  private runExtractors(request: Request): ExtractedToken | undefined {
+    const reject = this.options.tokenConflictPolicy === 'reject';
+    let found: ExtractedToken | undefined;
+
+    for (const strategy of this.options.tokenExtractors) {
+      const token = strategy.extract(request);
+      if (!token) {
+        continue;
+      }
+      if (!found) {
+        found = { token, source: strategy.source };
+        this.logger.debug(`Using access token from ${strategy.source}`);
+        if (!reject) {
+          break;
+        }
+      } else if (found.token !== token) {
+        this.logger.warn(`Conflicting access tokens in ${found.source} and ${strategy.source}`);
+        throw new UnauthorizedException('Access denied - Conflicting authentication tokens');
+      }
     }
 
-    if (!accessToken) {
+    if (!found) {
       this.logger.warn('Access token not found in request');
     }
 
-    return accessToken;
+    return found;
+  }
+
+  /**
+   * Extract the access token of a WebSocket connection from the handshake
+   * Checks the auth payload ({ token }), then the token/access_token query
+   * parameters, then the Authorization header and the access token cookie
+   * @param handshake - Socket.IO handshake
+   * @returns Access token string or undefined if not found
+   */
+  extractWsToken(handshake: WsHandshake | undefined): string | undefined {
+    const fromAuth = handshake?.auth?.token;
+    if (typeof fromAuth === 'string' && fromAuth) {
+      this.logger.debug('Using access token from handshake auth payload');
+      return fromAuth.startsWith('Bearer ') ? fromAuth.substring(7) : fromAuth;
+    }
+
+    const query = handshake?.query || {};
+    const fromQuery = query.token || query.access_token;
+    if (typeof fromQuery === 'string' && fromQuery) {
+      this.logger.debug('Using access token from handshake query');
+      return fromQuery;
+    }
+
+    const headers = handshake?.headers || {};
+    const authHeader = headers[this.options.headers.authorization];
+    if (typeof authHeader === 'string' && authHeader.startsWith('Bearer ')) {
+      this.logger.debug('Using access token from handshake Authorization header');
+      return authHeader.substring(7);
+    }
+
+    const cookie = typeof headers.cookie === 'string' ? headers.cookie : '';
+    for (const pair of cookie.split(';')) {
+      const separator = pair.indexOf('=');
+      if (separator > 0 && pair.slice(0, separator).trim() === this.options.cookieName) {
+        this.logger.debug('Using access token from handshake cookies');
+        const value = pair.slice(separator + 1).trim();
+        try {
+          return decodeURIComponent(value);
+        } catch {
+          return value;
+        }
+      }
+    }
+
+    this.logger.warn('Access token not found in handshake');
+    return undefined;
   }
-}
\ No newline at end of file
+}
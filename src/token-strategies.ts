@@ -0,0 +1,82 @@
+import { Request } from 'express';
+import type { TokenExtractionStrategy } from './types';
+
+function firstString(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' && first.trim() ? first.trim() : undefined;
+}
+
+/**
+ * `<scheme> <token>` header, e.g. Authorization: Bearer <token>
+ * The scheme is matched case-insensitively
+ */
+export class BearerTokenStrategy implements TokenExtractionStrategy {
+  readonly source = 'header';
+
+  constructor(
+    private readonly header = 'authorization',
+    private readonly scheme = 'Bearer',
+  ) { }
+
+  extract(request: Request): string | undefined {
+    const value = firstString(request.headers?.[this.header.toLowerCase()]);
+    const prefix = `${this.scheme.toLowerCase()} `;
+    if (!value || !value.toLowerCase().startsWith(prefix)) {
+      return undefined;
+    }
+    return value.substring(prefix.length).trim() || undefined;
+  }
+}
+
+/**
+ * Raw token in a custom header, e.g. x-service-token: <token>
+ */
+export class HeaderTokenStrategy implements TokenExtractionStrategy {
+  readonly source = 'header';
+
+  constructor(private readonly header: string) { }
+
+  extract(request: Request): string | undefined {
+    return firstString(request.headers?.[this.header.toLowerCase()]);
+  }
+}
+
+/**
+ * Named cookie (requires cookie-parser)
+ */
+export class CookieTokenStrategy implements TokenExtractionStrategy {
+  readonly source = 'cookie';
+
+  constructor(private readonly name = 'access_token') { }
+
+  extract(request: Request): string | undefined {
+    return firstString(request.cookies?.[this.name]);
+  }
+}
+
+/**
+ * Named cookie signed with the cookie-parser secret; tampered cookies are ignored
+ */
+export class SignedCookieTokenStrategy implements TokenExtractionStrategy {
+  readonly source = 'signed-cookie';
+
+  constructor(private readonly name = 'access_token') { }
+
+  extract(request: Request): string | undefined {
+    return firstString(request.signedCookies?.[this.name]);
+  }
+}
+
+/**
+ * Query string parameter, e.g. for download links
+ * Opt-in only: tokens in URLs end up in logs and browser history
+ */
+export class QueryTokenStrategy implements TokenExtractionStrategy {
+  readonly source = 'query';
+
+  constructor(private readonly name = 'access_token') { }
+
+  extract(request: Request): string | undefined {
+    return firstString(request.query?.[this.name]);
+  }
+}
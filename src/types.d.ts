@@ -1,14 +0,0 @@
-export interface User {
-  sub: string;
-  role?: string;
-  permissions?: string[];
-  accessToken: string;
-}
-
-declare global {
-  namespace Express {
-    interface Request {
-      user?: User;
-    }
-  }
-}
\ No newline at end of file
@@ -0,0 +1,789 @@
+import type { ExecutionContext, FactoryProvider, ModuleMetadata, Type } from '@nestjs/common';
+import type { Request } from 'express';
+import type { Observable } from 'rxjs';
+
+export interface User {
+  sub: string;
+  role?: string;
+  permissions?: string[];
+  /** Access token, or the API key for apiKey principals */
+  accessToken: string;
+  /** How the principal authenticated (default: jwt) */
+  authStrategy?: AuthStrategy;
+  /** Scopes granted to the principal */
+  scopes?: string[];
+  /** OAuth2 client the token was issued to */
+  clientId?: string;
+  /** Human-readable identifier of the resource owner */
+  username?: string;
+  /** Type of the token, e.g. Bearer */
+  tokenType?: string;
+  /** Expiry, issue and not-before times in seconds since the epoch */
+  exp?: number;
+  iat?: number;
+  nbf?: number;
+  aud?: string | string[];
+  iss?: string;
+  jti?: string;
+}
+
+/**
+ * Token introspection response (RFC 7662) extended with core-service role and permissions
+ */
+export interface IntrospectionResponse {
+  active: boolean;
+  sub?: string;
+  role?: string;
+  permissions?: string[];
+  /** Space-separated list of scopes */
+  scope?: string;
+  /** Scope list, accepted as an alternative to scope */
+  scopes?: string[];
+  client_id?: string;
+  username?: string;
+  token_type?: string;
+  exp?: number;
+  iat?: number;
+  nbf?: number;
+  aud?: string | string[];
+  iss?: string;
+  jti?: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Credential types accepted by AuthGuard
+ * - jwt: access token found by the token extraction chain
+ * - apiKey: API key header of machine clients
+ */
+export type AuthStrategy = 'jwt' | 'apiKey';
+
+/**
+ * Options of @Auth()
+ */
+export interface AuthOptions {
+  /** Accepted credentials, tried in order (default: ['jwt']) */
+  strategies?: AuthStrategy[];
+}
+
+/**
+ * Maps an API key to its principal
+ */
+export interface ApiKeyVerifier {
+  /** @returns The principal (without accessToken), or undefined for unknown or disabled keys */
+  verify(key: string): Promise<Omit<User, 'accessToken'> | undefined>;
+}
+
+/**
+ * Org/workspace/object scope of a permission or role check
+ */
+export interface AuthorizationContext {
+  orgId: string;
+  workspaceId?: string;
+  objectId?: string;
+  objectType?: string;
+}
+
+/**
+ * Reads one authorization context value from the request
+ * Returning undefined leaves the value unset
+ */
+export type ContextValueResolver = (request: Request, context: ExecutionContext) => unknown;
+
+/**
+ * A constant value or a resolver such as param('orgId') or query('workspace')
+ */
+export type ContextValueSource = string | ContextValueResolver;
+
+/**
+ * Where each authorization context value comes from
+ * Unmapped values fall back to the module default, then to the x-* headers
+ */
+export type AuthzContextMapping = {
+  [K in keyof AuthorizationContext]?: ContextValueSource;
+};
+
+export type MatchMode = 'any' | 'all';
+
+/**
+ * Where an access token was found; built-in strategies use
+ * header, cookie, signed-cookie and query
+ */
+export type TokenSource = 'header' | 'cookie' | 'signed-cookie' | 'query' | (string & {});
+
+/**
+ * One step of the token extraction chain
+ */
+export interface TokenExtractionStrategy {
+  readonly source: TokenSource;
+  /** @returns The token, or undefined when this strategy finds none */
+  extract(request: Request): string | undefined;
+}
+
+/**
+ * What to do when several strategies find different tokens
+ * - first-wins: use the token of the first strategy in the chain
+ * - reject: fail with 401
+ */
+export type TokenConflictPolicy = 'first-wins' | 'reject';
+
+/**
+ * Token found by TokenExtractorService together with its source
+ */
+export interface ExtractedToken {
+  token: string;
+  source: TokenSource;
+}
+
+/**
+ * How class-level and handler-level authorization metadata combine
+ * - override: handler-level metadata replaces class-level metadata
+ * - merge: both levels apply and each must be satisfied
+ */
+export type MetadataPrecedence = 'override' | 'merge';
+
+/**
+ * Where PermissionGuard decides permission checks
+ * - remote: every check is sent to core-service
+ * - local: checks without org/workspace/object context are decided from user.permissions
+ *   when the token lists them; other checks are sent to core-service
+ */
+export type PermissionEvaluationMode = 'remote' | 'local';
+
+/**
+ * Options of @Authorize()
+ */
+export interface AuthorizeOptions {
+  roles?: string[] | string;
+  permissions?: string[] | string;
+  /** any | all (default: all) */
+  rolesMatch?: MatchMode;
+  /** any | all (default: all) */
+  permissionsMatch?: MatchMode;
+  /** Whether both the role and the permission requirement must hold (default: and) */
+  combine?: 'and' | 'or';
+}
+
+/**
+ * Attributes a policy is evaluated against
+ */
+export interface PolicyInput {
+  user: User;
+  /** Resource loaded by the @Policy() resource resolver, if any */
+  resource?: unknown;
+  /** Action being authorized (default: the policy name) */
+  action: string;
+  context: PolicyContext;
+  /** Remote checks in the resolved org/workspace/object context */
+  checks: PolicyChecks;
+}
+
+/**
+ * Request attributes of a policy evaluation; org/workspace/object values are resolved
+ * like for permission checks, but are optional
+ */
+export interface PolicyContext extends Partial<AuthorizationContext> {
+  /** Evaluation time in ms since the epoch */
+  now: number;
+  /** UTC hour (0-23) and weekday (0 = Sunday) of the evaluation time */
+  hour: number;
+  weekday: number;
+}
+
+/**
+ * Core-service checks available to policies
+ * @throws BadRequestException when the request resolves no orgId
+ */
+export interface PolicyChecks {
+  hasPermission(permissions: string[] | string, match?: MatchMode): Promise<boolean>;
+  hasRole(roles: string[] | string, match?: MatchMode): Promise<boolean>;
+}
+
+/**
+ * Result of a policy function; a boolean is explained generically
+ */
+export type PolicyResult = boolean | { allowed: boolean; reason?: string };
+
+/**
+ * Policy implemented in code
+ */
+export type PolicyFunction = (input: PolicyInput) => PolicyResult | Promise<PolicyResult>;
+
+/**
+ * Value of a rule condition: a literal or a { var: 'resource.ownerId' } reference
+ * into the policy input (user, resource, action, context)
+ */
+export type PolicyOperand = string | number | boolean | null | Array<string | number | boolean> | { var: string };
+
+/**
+ * Condition of the declarative rule language
+ */
+export type PolicyCondition =
+  | { all: PolicyCondition[] }
+  | { any: PolicyCondition[] }
+  | { not: PolicyCondition }
+  | { eq: [PolicyOperand, PolicyOperand] }
+  | { ne: [PolicyOperand, PolicyOperand] }
+  | { gt: [PolicyOperand, PolicyOperand] }
+  | { gte: [PolicyOperand, PolicyOperand] }
+  | { lt: [PolicyOperand, PolicyOperand] }
+  | { lte: [PolicyOperand, PolicyOperand] }
+  /** Left value is an element of the right list */
+  | { in: [PolicyOperand, PolicyOperand] }
+  | { exists: PolicyOperand }
+  /** Remote checks; every listed permission/role is required */
+  | { hasPermission: string[] | string }
+  | { hasRole: string[] | string };
+
+/**
+ * Named rule of a declarative policy
+ */
+export interface PolicyRule {
+  id: string;
+  effect: 'allow' | 'deny';
+  when: PolicyCondition;
+}
+
+/**
+ * Declarative policy: a matching deny rule wins over allow rules, rules are evaluated
+ * in order, and a request no rule matches is denied
+ */
+export interface JsonPolicy {
+  rules: PolicyRule[];
+}
+
+export type PolicyDefinition = PolicyFunction | JsonPolicy;
+
+/**
+ * Outcome of a policy evaluation with the rule that decided it
+ */
+export interface PolicyDecision {
+  policy: string;
+  allowed: boolean;
+  /** Id of the deciding rule of a declarative policy */
+  rule?: string;
+  reason: string;
+}
+
+/**
+ * Options of @Policy()
+ */
+export interface PolicyOptions {
+  /** Action passed to the policy (default: the policy name) */
+  action?: string;
+  /** Load the resource the policy is evaluated against, e.g. body('document') or a repository lookup */
+  resource?: (request: Request, context: ExecutionContext) => unknown;
+}
+
+/**
+ * Loads the resource of an ownership check; registered as a provider so it can inject repositories
+ */
+export interface ResourceLoader<T = unknown> {
+  /** @returns The resource, or null/undefined when it does not exist (404) */
+  load(id: string, request: Request): Promise<T | null | undefined> | T | null | undefined;
+}
+
+/**
+ * Options of @RequireOwnership()
+ */
+export interface OwnershipOptions {
+  /** Provider class resolved from the application's modules */
+  loader: Type<ResourceLoader>;
+  /** (Dot-separated) path of the owner's sub on the resource (default: ownerId) */
+  ownerField?: string;
+  /** Route param holding the resource id (default: id) */
+  param?: string;
+  /** Resource id source replacing param, e.g. body('orderId') or arg('id') */
+  id?: ContextValueResolver;
+  /** Permissions that grant access to resources of other owners (any of them) */
+  bypassPermissions?: string[];
+}
+
+/**
+ * Per-call options of AuthValidatorService checks
+ */
+export interface AuthCheckOptions {
+  /** Set to false to never serve stale cached results (fail closed) */
+  allowStale?: boolean;
+  /** Called with where the result came from */
+  onSource?: (source: AuthDecisionSource) => void;
+}
+
+/**
+ * Where an authentication or authorization result came from
+ * - cache: a cached (possibly stale) result
+ * - remote: core-service
+ * - local: JWKS verification, a local API key verifier, token claims or a policy
+ */
+export type AuthDecisionSource = 'cache' | 'remote' | 'local';
+
+/**
+ * Guard decision recorded in the audit trail
+ */
+export type AuthAuditCheck = 'authentication' | 'permission' | 'role' | 'scope' | 'authorize' | 'policy' | 'ownership';
+
+export type AuthAuditOutcome = 'allow' | 'deny' | 'error';
+
+/**
+ * Machine-readable reason of an audit event
+ */
+export type AuthAuditReason =
+  | 'authenticated'
+  | 'public'
+  | 'anonymous'
+  | 'missing_credentials'
+  | 'invalid_credentials'
+  | 'csrf_failed'
+  | 'granted'
+  | 'denied'
+  | 'owner'
+  | 'missing_user'
+  | 'missing_context'
+  | 'not_found'
+  | 'service_unavailable'
+  | 'error';
+
+/**
+ * Requirement evaluated by an audited decision
+ */
+export interface AuthAuditRequirement {
+  roles?: string[];
+  permissions?: string[];
+  scopes?: string[];
+  match?: MatchMode;
+  rolesMatch?: MatchMode;
+  permissionsMatch?: MatchMode;
+  combine?: 'and' | 'or';
+  policy?: string;
+  ownerField?: string;
+}
+
+/**
+ * Structured record of one authentication or authorization decision
+ * Credentials never appear in events: principals carry no accessToken and
+ * token-like values are redacted before events reach a sink
+ */
+export interface AuthAuditEvent {
+  /** ISO 8601 time of the decision */
+  timestamp: string;
+  check: AuthAuditCheck;
+  outcome: AuthAuditOutcome;
+  reason: AuthAuditReason;
+  /** Policy reason or rule of policy decisions */
+  detail?: string;
+  principal?: { sub: string; authStrategy?: AuthStrategy; clientId?: string };
+  /** Controller and handler, e.g. OrdersController.update */
+  route: string;
+  /** HTTP method, or the transport (graphql, rpc, ws) */
+  method: string;
+  /** Route path of HTTP requests, e.g. /orders/:id */
+  path?: string;
+  required?: AuthAuditRequirement;
+  context?: Partial<AuthorizationContext>;
+  source?: AuthDecisionSource;
+  latencyMs: number;
+  requestId?: string;
+}
+
+/**
+ * Receives audit events; errors and rejections of sinks are logged and never fail the request
+ */
+export interface AuthAuditSink {
+  record(event: AuthAuditEvent): void | Promise<void>;
+}
+
+/**
+ * Metrics reported by the auth package
+ * - auth_calls_total: validateToken/validateApiKey/checkPermission/checkRole calls by operation and outcome
+ * - auth_cache_lookups_total: token and decision cache lookups by cache and result (hit, miss)
+ * - auth_upstream_request_duration_seconds: HTTP calls to the auth service by endpoint and status
+ * - auth_guard_denials_total: guard denials by check, route and reason
+ */
+export type AuthMetricName =
+  | 'auth_calls_total'
+  | 'auth_cache_lookups_total'
+  | 'auth_upstream_request_duration_seconds'
+  | 'auth_guard_denials_total';
+
+export type AuthMetricLabels = Record<string, string>;
+
+/**
+ * Registry-agnostic metrics sink, e.g. InMemoryAuthMetrics or PromClientAuthMetrics
+ * Errors thrown by a sink are logged and never fail the request
+ */
+export interface AuthMetrics {
+  /** Add value (default: 1) to a counter */
+  increment(name: AuthMetricName, labels: AuthMetricLabels, value?: number): void;
+  /** Record one observation of a histogram */
+  observe(name: AuthMetricName, labels: AuthMetricLabels, value: number): void;
+}
+
+/**
+ * Subset of the prom-client module used by PromClientAuthMetrics
+ */
+export interface PromClientLike {
+  Counter: new (config: {
+    name: string;
+    help: string;
+    labelNames: readonly string[];
+    registers?: PromRegistryLike[];
+  }) => { inc(labels: AuthMetricLabels, value?: number): void };
+  Histogram: new (config: {
+    name: string;
+    help: string;
+    labelNames: readonly string[];
+    buckets?: number[];
+    registers?: PromRegistryLike[];
+  }) => { observe(labels: AuthMetricLabels, value: number): void };
+  register: PromRegistryLike;
+}
+
+export interface PromRegistryLike {
+  getSingleMetric(name: string): unknown;
+}
+
+export type AuthSpanAttributes = Record<string, string | number | boolean | string[]>;
+
+/**
+ * Subset of an OpenTelemetry Span used by AuthTracingService
+ */
+export interface AuthSpan {
+  setAttributes(attributes: AuthSpanAttributes): unknown;
+  /** code: 0 unset, 1 ok, 2 error */
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  spanContext(): { traceId: string; spanId: string; traceFlags: number; traceState?: { serialize(): string } };
+  end(): void;
+}
+
+/**
+ * Subset of an OpenTelemetry Tracer used by AuthTracingService, e.g. trace.getTracer() or InMemoryAuthTracer
+ */
+export interface AuthTracer {
+  /** kind: 0 internal, 2 client */
+  startActiveSpan<T>(
+    name: string,
+    options: { kind?: number; attributes?: AuthSpanAttributes },
+    fn: (span: AuthSpan) => T,
+  ): T;
+}
+
+/**
+ * One entry of AuthValidatorService.checkPermissionsBatch()
+ */
+export interface PermissionCheck {
+  permissions: string[];
+  /** any | all (default: all) */
+  match?: 'any' | 'all';
+  context: AuthorizationContext;
+}
+
+/**
+ * Revocation broadcast to every AuthValidatorService instance
+ * - token: drop the cached token or API key (by tokenCacheKey / apiKeyCacheKey) and deny-list it
+ *   by jti, or by tokenKey without one, until exp
+ * - user: treat every token of sub cached before revokedAt (epoch ms) as uncached
+ */
+export type RevocationEvent =
+  | { type: 'token'; tokenKey: string; jti?: string; exp?: number }
+  | { type: 'user'; sub: string; revokedAt: number };
+
+/**
+ * Delivers revocation events across instances (e.g. Redis pub/sub);
+ * events carry token hashes, never raw tokens
+ */
+export interface RevocationTransport {
+  publish(event: RevocationEvent): void | Promise<void>;
+  /** @returns Function removing the listener */
+  subscribe(listener: (event: RevocationEvent) => void | Promise<void>): () => void;
+}
+
+/**
+ * Hit/miss counters of a cache
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  hitRatio: number;
+}
+
+/**
+ * Key/value store used to cache auth results.
+ * Implementations must drop entries once their TTL has elapsed.
+ */
+export interface AuthCacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Claims of a locally verified JWT
+ */
+export interface JwtClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * Options accepted by AuthModule.forRoot()
+ */
+export interface AuthModuleOptions {
+  /** Register the module globally so feature modules don't have to import it */
+  isGlobal?: boolean;
+  /**
+   * Register AuthGuard, PermissionGuard and RoleGuard as APP_GUARD so every
+   * route requires authentication unless marked @Public()
+   */
+  globalGuards?: boolean;
+  /** Token introspection endpoint (default: TOKEN_INTROSPECTION_URL or core-service) */
+  introspectionUrl?: string;
+  /** Permission check endpoint (default: PERMISSION_CHECK_URL or core-service) */
+  permissionCheckUrl?: string;
+  /** Role check endpoint (default: ROLE_CHECK_URL or core-service) */
+  roleCheckUrl?: string;
+  /** Batch permission check endpoint; single checks are used when omitted */
+  permissionBatchCheckUrl?: string;
+  /** Max parallel single checks when no batch endpoint is available (default: 5) */
+  batchConcurrency?: number;
+  /** TTL of cached introspection results in ms (default: 30000) */
+  cacheTtlMs?: number;
+  /** Maximum number of entries in the default in-memory cache (default: 10000) */
+  cacheMaxEntries?: number;
+  /** Shared cache store (e.g. Redis) replacing the default in-memory LRU */
+  cacheStore?: AuthCacheStore;
+  /** TTLs of cached permission/role decisions in ms; 0 disables caching that outcome */
+  decisionCache?: {
+    /** TTL of allow results (default: 30000) */
+    allowTtlMs?: number;
+    /** TTL of deny results (default: 5000) */
+    denyTtlMs?: number;
+  };
+  /**
+   * Serve expired cached token validations and decisions when the auth
+   * service fails with a 5xx or network error (opt-in)
+   */
+  staleWhileError?: {
+    /** Enable degraded mode (default: false) */
+    enabled?: boolean;
+    /** How long past its TTL a cached result may still be served in ms (default: 300000) */
+    graceMs?: number;
+  };
+  /** API key authentication of machine clients */
+  apiKey?: {
+    /** Header carrying the key (default: x-api-key) */
+    header?: string;
+    /** Endpoint verifying keys when no verifier is set (default: env API_KEY_VERIFY_URL or core-service) */
+    verifyUrl?: string;
+    /** Local verifier, e.g. HashedApiKeyVerifier, replacing the remote endpoint */
+    verifier?: ApiKeyVerifier;
+  };
+  /** Token and user revocation */
+  revocation?: {
+    /** Transport shared by all instances (default: in-process EventEmitter) */
+    transport?: RevocationTransport;
+    /** Deny-list TTL for revoked JWTs without exp in ms (default: 86400000) */
+    denyListTtlMs?: number;
+    /**
+     * Store of revoked jti and user markers, kept until their TTL (default: cacheStore when
+     * one is configured, otherwise an in-memory store that never evicts before the TTL)
+     */
+    store?: AuthCacheStore;
+  };
+  /** Audit trail of authentication and authorization decisions */
+  audit?: {
+    /** Sinks receiving every event (default: none, auditing disabled) */
+    sinks?: AuthAuditSink[];
+    /** Header carrying the request ID (default: x-request-id) */
+    requestIdHeader?: string;
+  };
+  /** Metrics of auth decisions, cache and upstream latency (default: none) */
+  metrics?: AuthMetrics;
+  /** Tracing spans around guards and calls to the auth service */
+  tracing?: {
+    /** Set to false to disable tracing (default: true) */
+    enabled?: boolean;
+    /** Tracer creating the spans (default: the global OpenTelemetry tracer when @opentelemetry/api is installed) */
+    tracer?: AuthTracer;
+    /** Send W3C trace context headers (traceparent, tracestate) to the auth service (default: true) */
+    propagate?: boolean;
+  };
+  /** Timeout for calls to the auth service in ms (default: 5000) */
+  httpTimeoutMs?: number;
+  /** Retries of network errors, timeouts and 5xx from the auth service */
+  retry?: {
+    /** Additional attempts after the first one (default: 2) */
+    retries?: number;
+    /** Backoff base delay in ms, doubled per attempt and fully jittered (default: 100) */
+    baseDelayMs?: number;
+    /** Backoff delay cap in ms (default: 1000) */
+    maxDelayMs?: number;
+  };
+  /** Circuit breaker shared by all auth service calls */
+  circuitBreaker?: {
+    /** Consecutive failures that open the circuit (default: 5) */
+    failureThreshold?: number;
+    /** Time the circuit stays open before a trial call in ms (default: 30000) */
+    resetTimeoutMs?: number;
+  };
+  /** Cookie holding the access token for browser clients (default: access_token) */
+  cookieName?: string;
+  /**
+   * Ordered token extraction chain
+   * (default: Authorization Bearer header, then the cookieName cookie)
+   */
+  tokenExtractors?: TokenExtractionStrategy[];
+  /** Handling of different tokens found by several extractors (default: first-wins) */
+  tokenConflictPolicy?: TokenConflictPolicy;
+  /**
+   * CSRF defense for requests authenticated by a cookie (opt-in)
+   * Requests authenticated by a header are never checked
+   */
+  csrf?: {
+    /** Enable CSRF checks (default: false) */
+    enabled?: boolean;
+    /** Methods never checked (default: GET, HEAD, OPTIONS) */
+    safeMethods?: string[];
+    /** Require the header token to match the cookie token (default: true) */
+    doubleSubmit?: boolean;
+    /** Cookie holding the double-submit token (default: csrf_token) */
+    cookieName?: string;
+    /** Header echoing the double-submit token (default: x-csrf-token) */
+    headerName?: string;
+    /** Origins (scheme://host[:port]) allowed by the Origin/Referer check, empty disables it (default: []) */
+    allowedOrigins?: string[];
+  };
+  /** WebSocket sessions authenticated by WsAuthService */
+  ws?: {
+    /** Revalidate the token of a connected socket every N ms, 0 disables (default: 60000) */
+    revalidateIntervalMs?: number;
+  };
+  /**
+   * How access tokens are verified (default: introspection)
+   * - introspection: POST every uncached token to introspectionUrl
+   * - jwks: verify JWT signatures locally against the JWKS document
+   * - hybrid: verify locally, introspect opaque tokens or tokens missing jwks.requiredClaims
+   */
+  verificationMode?: TokenVerificationMode;
+  /** Local JWT verification settings, required for jwks and hybrid modes */
+  jwks?: JwksOptions;
+  /** Default authorization context mapping, overridden per route by @AuthzContext() */
+  contextMapping?: AuthzContextMapping;
+  /** How class-level and handler-level authorization metadata combine (default: override) */
+  metadataPrecedence?: MetadataPrecedence;
+  /**
+   * Where permission checks are decided (default: remote)
+   * Local evaluation matches hierarchical wildcards such as user.* and *:read
+   */
+  permissionEvaluation?: PermissionEvaluationMode;
+  /** Policies evaluated by @Policy(), registered by name; more can be added through PolicyRegistry */
+  policies?: Record<string, PolicyDefinition>;
+  /** Request header names, matched case-insensitively */
+  headers?: {
+    authorization?: string;
+    orgId?: string;
+    workspaceId?: string;
+    objectId?: string;
+  };
+}
+
+export type TokenVerificationMode = 'introspection' | 'jwks' | 'hybrid';
+
+export type JwtAlgorithm = 'RS256' | 'ES256' | 'EdDSA';
+
+export interface JwksOptions {
+  /** URL of the JWKS document */
+  uri: string;
+  /** Accepted `iss` value(s); not checked when omitted */
+  issuer?: string | string[];
+  /** Accepted `aud` value(s); not checked when omitted */
+  audience?: string | string[];
+  /** Accepted signature algorithms (default: RS256, ES256, EdDSA) */
+  algorithms?: JwtAlgorithm[];
+  /** Allowed clock skew for exp/nbf in seconds (default: 5) */
+  clockToleranceSec?: number;
+  /** How long a fetched JWKS document is trusted in ms (default: 600000) */
+  cacheTtlMs?: number;
+  /** Minimum delay between refetches triggered by an unknown kid, or after a failed fetch, in ms (default: 10000) */
+  refreshCooldownMs?: number;
+  /** Claims that must be present; in hybrid mode their absence triggers introspection */
+  requiredClaims?: string[];
+  /** Claim names mapped onto User.role and User.permissions */
+  claims?: {
+    role?: string;
+    permissions?: string;
+  };
+}
+
+/**
+ * Options accepted by AuthModule.forRootAsync()
+ */
+export interface AuthModuleAsyncOptions extends Pick<ModuleMetadata, 'imports'> {
+  isGlobal?: boolean;
+  globalGuards?: boolean;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  useFactory: (...args: any[]) => AuthModuleOptions | Promise<AuthModuleOptions>;
+  inject?: FactoryProvider['inject'];
+}
+
+/**
+ * Socket.IO handshake fields used to authenticate a connection
+ */
+export interface WsHandshake {
+  headers?: Record<string, string | string[] | undefined>;
+  query?: Record<string, unknown>;
+  auth?: Record<string, unknown>;
+}
+
+/**
+ * Structural Socket.IO socket, so that @nestjs/websockets and socket.io stay optional
+ */
+export interface WsClient {
+  id?: string;
+  handshake?: WsHandshake;
+  /** Per-connection state; WsAuthService stores the validated user here */
+  data?: {
+    user?: User;
+    authContext?: AuthorizationContext;
+    [key: string]: unknown;
+  };
+  disconnect(close?: boolean): unknown;
+  once?(event: 'disconnect', listener: () => void): unknown;
+}
+
+/**
+ * Caller identity propagated to outgoing RPC messages
+ */
+export interface AuthPropagationState {
+  user?: User;
+  authContext?: AuthorizationContext;
+}
+
+/**
+ * Structural ClientProxy, so that @nestjs/microservices stays optional
+ */
+export interface RpcClient {
+  send<TResult = unknown, TInput = unknown>(pattern: unknown, data: TInput): Observable<TResult>;
+  emit<TResult = unknown, TInput = unknown>(pattern: unknown, data: TInput): Observable<TResult>;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+      authContext?: AuthorizationContext;
+      /** Where AuthGuard found the access token, e.g. header or cookie */
+      authTokenSource?: TokenSource;
+      /** Decisions of the @Policy() checks of the route */
+      policyDecisions?: PolicyDecision[];
+      /** Resource loaded by @RequireOwnership() */
+      resource?: unknown;
+    }
+  }
+}
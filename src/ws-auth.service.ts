@@ -0,0 +1,170 @@
+import { Inject, Injectable, Logger, OnModuleDestroy, Optional, UnauthorizedException } from '@nestjs/common';
+import { AUTH_MODULE_OPTIONS } from './auth.constants';
+import { tokenCacheKey } from './auth-cache.store';
+import { ResolvedAuthOptions, resolveAuthOptions } from './auth.options';
+import { AuthValidatorService } from './auth-validator.service';
+import { markAuthenticated } from './execution-context';
+import { JwtVerifierService } from './jwt-verifier.service';
+import { TokenExtractorService } from './token-extractor.service';
+import type { AuthModuleOptions, RevocationEvent, User, WsClient } from './types';
+
+// setTimeout delays above 2^31 - 1 ms fire immediately
+const MAX_TIMEOUT_MS = 2_147_483_647;
+
+interface WsSession {
+  token: string;
+  tokenKey: string;
+  /** When the token was issued (iat), or else validated, in ms */
+  since: number;
+  timers: NodeJS.Timeout[];
+}
+
+/**
+ * Authenticates WebSocket (Socket.IO) connections once on connect and keeps
+ * them authenticated: sockets are disconnected when the token expires, is
+ * revoked (invalidateToken/invalidateUser or revocation.transport) or fails
+ * a periodic revalidation
+ */
+@Injectable()
+export class WsAuthService implements OnModuleDestroy {
+  private readonly logger = new Logger(WsAuthService.name);
+  private readonly options: ResolvedAuthOptions;
+  // Removed on release(), which runs when the socket disconnects
+  private readonly sessions = new Map<WsClient, WsSession>();
+  private readonly unsubscribeRevocations: () => void;
+
+  constructor(
+    private tokenExtractor: TokenExtractorService,
+    private authValidator: AuthValidatorService,
+    @Optional() @Inject(AUTH_MODULE_OPTIONS) options?: AuthModuleOptions,
+    @Optional() private jwtVerifier?: JwtVerifierService,
+  ) {
+    this.options = resolveAuthOptions(options);
+    this.unsubscribeRevocations = this.authValidator.onRevocation((event) => this.disconnectRevoked(event));
+  }
+
+  onModuleDestroy(): void {
+    this.unsubscribeRevocations();
+  }
+
+  /**
+   * Validate the handshake token and attach the user to client.data.user
+   * Disconnects the socket when no valid token is presented
+   * @param client - Socket passed to handleConnection()
+   * @returns Validated user, or undefined when the socket was disconnected
+   */
+  async authenticate(client: WsClient): Promise<User | undefined> {
+    const token = this.tokenExtractor.extractWsToken(client.handshake);
+    if (!token) {
+      this.reject(client, 'missing token');
+      return undefined;
+    }
+
+    let user: User;
+    try {
+      user = await this.authValidator.validateToken(token);
+    } catch (error) {
+      this.reject(client, error instanceof Error ? error.message : 'Unknown error');
+      return undefined;
+    }
+
+    client.data = client.data || {};
+    client.data.user = markAuthenticated(user);
+    this.watch(client, token, user);
+    return user;
+  }
+
+  /**
+   * Stop expiry and revalidation timers of a socket
+   * Called automatically when the socket emits 'disconnect'
+   */
+  release(client: WsClient): void {
+    const session = this.sessions.get(client);
+    if (session) {
+      session.timers.forEach((timer) => clearTimeout(timer));
+      this.sessions.delete(client);
+    }
+  }
+
+  private watch(client: WsClient, token: string, user: User): void {
+    this.release(client);
+    // Opaque tokens cannot be decoded; their expiry comes from introspection
+    const claims = this.jwtVerifier?.decode(token)?.claims;
+    const exp = typeof claims?.exp === 'number' ? claims.exp : user.exp;
+    const iat = typeof claims?.iat === 'number' ? claims.iat : user.iat;
+    const session: WsSession = {
+      token,
+      tokenKey: tokenCacheKey(token),
+      since: typeof iat === 'number' ? iat * 1000 : Date.now(),
+      timers: [],
+    };
+    this.sessions.set(client, session);
+    client.once?.('disconnect', () => this.release(client));
+
+    if (typeof exp === 'number') {
+      this.scheduleExpiry(client, session, exp * 1000);
+    }
+
+    const interval = this.options.ws.revalidateIntervalMs;
+    if (interval > 0) {
+      const timer = setInterval(() => void this.revalidate(client, session), interval);
+      timer.unref();
+      session.timers.push(timer);
+    }
+  }
+
+  private async revalidate(client: WsClient, session: WsSession): Promise<void> {
+    try {
+      const user = await this.authValidator.validateToken(session.token);
+      if (client.data) {
+        client.data.user = markAuthenticated(user);
+      }
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        this.expel(client, 'token no longer valid');
+        return;
+      }
+      // Keep the socket on auth service outages, the next revalidation retries
+      this.logger.warn(`Could not revalidate socket ${client.id}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Longer delays are re-armed in MAX_TIMEOUT_MS steps instead of firing early
+  private scheduleExpiry(client: WsClient, session: WsSession, expiresAt: number): void {
+    const delayMs = Math.max(expiresAt - Date.now(), 0);
+    session.timers.push(delayMs > MAX_TIMEOUT_MS
+      ? this.schedule(() => this.scheduleExpiry(client, session, expiresAt), MAX_TIMEOUT_MS)
+      : this.schedule(() => this.expel(client, 'token expired'), delayMs));
+  }
+
+  private disconnectRevoked(event: RevocationEvent): void {
+    for (const [client, session] of this.sessions) {
+      if (event.type === 'token' ? session.tokenKey === event.tokenKey
+        : client.data?.user?.sub === event.sub && session.since <= event.revokedAt) {
+        this.expel(client, 'token revoked');
+      }
+    }
+  }
+
+  private schedule(fn: () => void, delayMs: number): NodeJS.Timeout {
+    const timer = setTimeout(fn, delayMs);
+    timer.unref();
+    return timer;
+  }
+
+  private reject(client: WsClient, reason: string): void {
+    this.logger.warn(`Rejected socket ${client.id}: ${reason}`);
+    client.disconnect(true);
+  }
+
+  private expel(client: WsClient, reason: string): void {
+    this.logger.log(`Disconnecting socket ${client.id} of user ${client.data?.user?.sub}: ${reason}`);
+    this.release(client);
+    if (client.data) {
+      delete client.data.user;
+    }
+    client.disconnect(true);
+  }
+}